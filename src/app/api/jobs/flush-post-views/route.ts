@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { isAuthorizedJobRequest } from "@/server/jobs/auth";
+import { flushPostViews } from "@/server/jobs/flush-post-views";
+import { currentViewWindow } from "@/server/views";
+
+/**
+ * Job endpoint that adds recorded views to post view counts
+ * Requires `Authorization: Bearer $CRON_SECRET`; without CRON_SECRET it only runs in development
+ *
+ * Locally: curl -X POST http://localhost:3000/api/jobs/flush-post-views
+ */
+const handler = async (req: NextRequest) => {
+  if (!isAuthorizedJobRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const views = await flushPostViews(currentViewWindow());
+    return NextResponse.json({ views });
+  } catch (error) {
+    console.error("flush-post-views job failed:", error);
+    return NextResponse.json({ error: "Failed to flush post views" }, { status: 500 });
+  }
+};
+
+export { handler as GET, handler as POST };
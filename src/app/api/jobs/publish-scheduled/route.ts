@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { isAuthorizedJobRequest } from "@/server/jobs/auth";
+import { publishDuePosts } from "@/server/jobs/publish-scheduled";
+
+/**
+ * Job endpoint that publishes due scheduled posts
+ * Requires `Authorization: Bearer $CRON_SECRET`; without CRON_SECRET it only runs in development
+ *
+ * Locally: curl -X POST http://localhost:3000/api/jobs/publish-scheduled
+ */
+const handler = async (req: NextRequest) => {
+  if (!isAuthorizedJobRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const published = await publishDuePosts();
+    return NextResponse.json({
+      published: published.length,
+      posts: published.map((post) => ({ id: post.id, slug: post.slug })),
+    });
+  } catch (error) {
+    console.error("publish-scheduled job failed:", error);
+    return NextResponse.json({ error: "Failed to publish scheduled posts" }, { status: 500 });
+  }
+};
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,186 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { TRPCError } from "@trpc/server";
+import { AtSign, CalendarDays, FileText, Github, Globe, Linkedin, MessageSquare, Rss, Twitter, Users, type LucideIcon } from "lucide-react";
+import { FollowButton } from "@/components/FollowButton";
+import { Navbar } from "@/components/Navbar";
+import { PostFeed } from "@/components/PostFeed";
+import { Avatar } from "@/components/ui";
+import { scopedListingInput } from "@/lib/post-listing";
+import { socialLinkKeys, type SocialLinks } from "@/lib/schema";
+import { SITE_NAME, absoluteUrl, authorPath } from "@/lib/site";
+import { displayName, formatDate } from "@/lib/utils";
+import { HydrateClient, api } from "@/trpc/server";
+
+// Cached after the first request; profile and post changes revalidate it sooner
+export const revalidate = 600;
+
+type AuthorPageProps = { params: Promise<{ username: string }> };
+
+const SOCIAL_LINKS: Record<keyof SocialLinks, { label: string; icon: LucideIcon }> = {
+  website: { label: "Website", icon: Globe },
+  twitter: { label: "Twitter", icon: Twitter },
+  github: { label: "GitHub", icon: Github },
+  linkedin: { label: "LinkedIn", icon: Linkedin },
+  mastodon: { label: "Mastodon", icon: AtSign },
+};
+
+// Cached per request so generateMetadata and the page share one lookup; null for missing or deactivated users
+const getAuthor = cache(async (username: string) => {
+  try {
+    return await api.user.getProfile({ username });
+  } catch (error) {
+    if (error instanceof TRPCError && error.code === "NOT_FOUND") return null;
+    throw error;
+  }
+});
+
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+  const { username } = await params;
+  const author = await getAuthor(username);
+
+  if (!author) {
+    return { robots: { index: false, follow: false } };
+  }
+
+  const name = displayName(author);
+  const description = author.bio || `Posts by ${name}`;
+  const url = absoluteUrl(authorPath(author.username));
+
+  return {
+    title: name,
+    description,
+    alternates: {
+      canonical: url,
+      types: {
+        "application/rss+xml": `/feed/author/${author.username}/rss.xml`,
+        "application/atom+xml": `/feed/author/${author.username}/atom.xml`,
+      },
+    },
+    openGraph: {
+      type: "profile",
+      url,
+      title: name,
+      description,
+      siteName: SITE_NAME,
+      username: author.username,
+      images: author.avatar ? [author.avatar] : undefined,
+    },
+  };
+}
+
+export default async function AuthorPage({ params }: AuthorPageProps) {
+  const { username } = await params;
+  const author = await getAuthor(username);
+
+  if (!author) {
+    notFound();
+  }
+
+  const listingInput = scopedListingInput({ authorId: author.id });
+  await api.post.getAll.prefetchInfinite(listingInput);
+
+  const name = displayName(author);
+  const links = socialLinkKeys.flatMap((key) => {
+    const href = author.socialLinks[key];
+    return href ? [{ key, href, ...SOCIAL_LINKS[key] }] : [];
+  });
+
+  return (
+    <HydrateClient>
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+
+        <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Profile */}
+          <header className="bg-white rounded-lg shadow-sm border p-6 mb-8">
+            <div className="flex flex-col sm:flex-row sm:items-start gap-6">
+              <Avatar src={author.avatar} name={name} size={96} />
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h1 className="text-3xl font-bold text-gray-900">{name}</h1>
+                    <p className="text-gray-600">@{author.username}</p>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <a
+                      href={`/feed/author/${author.username}/rss.xml`}
+                      className="flex items-center gap-1 text-sm text-gray-600 hover:text-orange-600 transition-colors"
+                      title={`RSS feed for ${name}`}
+                    >
+                      <Rss className="w-4 h-4" />
+                      RSS
+                    </a>
+                    <FollowButton target={{ authorId: author.id }} />
+                  </div>
+                </div>
+
+                {author.bio && (
+                  <p className="text-gray-700 mt-3 whitespace-pre-line">{author.bio}</p>
+                )}
+
+                {links.length > 0 && (
+                  <ul className="flex flex-wrap gap-3 mt-4">
+                    {links.map((link) => (
+                      <li key={link.key}>
+                        <a
+                          href={link.href}
+                          target="_blank"
+                          rel="me noopener noreferrer"
+                          className="flex items-center gap-1.5 text-sm text-gray-700 hover:text-blue-600 transition-colors"
+                        >
+                          <link.icon className="w-4 h-4" />
+                          {link.label}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {/* Stats */}
+                <div className="flex flex-wrap gap-6 mt-4 text-sm text-gray-600">
+                  <div className="flex items-center gap-2">
+                    <FileText className="w-4 h-4" />
+                    <span>
+                      {author.stats.publishedPosts} {author.stats.publishedPosts === 1 ? "post" : "posts"}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <MessageSquare className="w-4 h-4" />
+                    <span>
+                      {author.stats.totalComments} {author.stats.totalComments === 1 ? "comment" : "comments"}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Users className="w-4 h-4" />
+                    <span>
+                      {author.stats.followerCount} {author.stats.followerCount === 1 ? "follower" : "followers"}
+                      {" · "}
+                      {author.stats.followingCount} following
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <CalendarDays className="w-4 h-4" />
+                    <span>Joined {formatDate(author.createdAt)}</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </header>
+
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Posts by {name}</h2>
+          <PostFeed
+            input={listingInput}
+            empty={
+              <div className="text-center py-12">
+                <p className="text-gray-700 text-lg">{name} hasn&apos;t published anything yet.</p>
+              </div>
+            }
+          />
+        </main>
+      </div>
+    </HydrateClient>
+  );
+}
@@ -0,0 +1,151 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { TRPCError } from "@trpc/server";
+import { ChevronRight, Rss } from "lucide-react";
+import { Navbar } from "@/components/Navbar";
+import { PostFeed } from "@/components/PostFeed";
+import { scopedListingInput } from "@/lib/post-listing";
+import { SITE_NAME, absoluteUrl, categoryPath } from "@/lib/site";
+import { HydrateClient, api } from "@/trpc/server";
+
+// Cached after the first request; post and category changes revalidate it sooner
+export const revalidate = 600;
+
+type CategoryPageProps = { params: Promise<{ slug: string }> };
+
+// Cached per request so generateMetadata and the page share one lookup; null for missing or inactive categories
+const getCategory = cache(async (slug: string) => {
+  try {
+    return await api.category.getBySlug(slug);
+  } catch (error) {
+    if (error instanceof TRPCError && error.code === "NOT_FOUND") return null;
+    throw error;
+  }
+});
+
+export async function generateMetadata({ params }: CategoryPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const category = await getCategory(slug);
+
+  if (!category) {
+    return { robots: { index: false, follow: false } };
+  }
+
+  const description = category.description || `Posts in ${category.name}`;
+  const url = absoluteUrl(categoryPath(category.slug));
+
+  return {
+    title: category.name,
+    description,
+    alternates: {
+      canonical: url,
+      types: {
+        "application/rss+xml": `/feed/category/${category.slug}/rss.xml`,
+        "application/atom+xml": `/feed/category/${category.slug}/atom.xml`,
+      },
+    },
+    openGraph: { type: "website", url, title: category.name, description, siteName: SITE_NAME },
+  };
+}
+
+export default async function CategoryPage({ params }: CategoryPageProps) {
+  const { slug } = await params;
+  const category = await getCategory(slug);
+
+  if (!category) {
+    notFound();
+  }
+
+  // Includes posts filed under subcategories
+  const listingInput = scopedListingInput({ categoryId: category.id });
+  await api.post.getAll.prefetchInfinite(listingInput);
+
+  return (
+    <HydrateClient>
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+
+        <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Breadcrumb */}
+          <nav aria-label="Breadcrumb" className="mb-6">
+            <ol className="flex flex-wrap items-center gap-1 text-sm text-gray-600">
+              <li>
+                <Link href="/categories" className="hover:text-blue-600 transition-colors">
+                  Categories
+                </Link>
+              </li>
+              {category.ancestors.map((ancestor) => (
+                <li key={ancestor.id} className="flex items-center gap-1">
+                  <ChevronRight className="w-4 h-4 text-gray-400" />
+                  <Link href={categoryPath(ancestor.slug)} className="hover:text-blue-600 transition-colors">
+                    {ancestor.name}
+                  </Link>
+                </li>
+              ))}
+              <li className="flex items-center gap-1" aria-current="page">
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+                <span className="text-gray-900">{category.name}</span>
+              </li>
+            </ol>
+          </nav>
+
+          {/* Header */}
+          <header
+            className="bg-white rounded-lg shadow-sm border border-l-4 p-6 mb-8"
+            style={category.color ? { borderLeftColor: category.color } : undefined}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+                  {category.icon && <span aria-hidden>{category.icon}</span>}
+                  {category.name}
+                </h1>
+                {category.description && (
+                  <p className="text-gray-700 mt-2">{category.description}</p>
+                )}
+              </div>
+              <a
+                href={`/feed/category/${category.slug}/rss.xml`}
+                className="flex items-center gap-1 text-sm text-gray-600 hover:text-orange-600 transition-colors"
+                title={`RSS feed for ${category.name}`}
+              >
+                <Rss className="w-4 h-4" />
+                RSS
+              </a>
+            </div>
+
+            {/* Subcategories */}
+            {category.children.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {category.children.map((child) => (
+                  <Link
+                    key={child.id}
+                    href={categoryPath(child.slug)}
+                    className="inline-flex items-center gap-1.5 bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1 rounded-full text-sm transition-colors"
+                  >
+                    {child.color && (
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: child.color }} />
+                    )}
+                    {child.icon && <span aria-hidden>{child.icon}</span>}
+                    {child.name}
+                  </Link>
+                ))}
+              </div>
+            )}
+          </header>
+
+          <PostFeed
+            input={listingInput}
+            empty={
+              <div className="text-center py-12">
+                <p className="text-gray-700 text-lg">No posts in this category yet.</p>
+              </div>
+            }
+          />
+        </main>
+      </div>
+    </HydrateClient>
+  );
+}
@@ -1,52 +1,143 @@
 "use client";
 
-import { useState } from "react";
-import { SignedIn, SignedOut, RedirectToSignIn } from '@clerk/nextjs';
+import { useMemo, useState } from "react";
+import { SignedIn, SignedOut, RedirectToSignIn, useUser } from '@clerk/nextjs';
 import { Navbar } from "@/components/Navbar";
+import { CategoryTreeEditor, subtreeIds } from "@/components/CategoryTreeEditor";
 import { api } from "@/trpc/react";
-import { Plus, Edit2, Trash2, Loader2 } from "lucide-react";
+import { Plus, Loader2 } from "lucide-react";
+import { hasRole } from "@/lib/permissions";
+import { getErrorMessage } from "@/lib/utils";
+import type { CategoryWithHierarchy } from "@/lib/schema";
+
+interface CategoryFormValues {
+  name: string;
+  description: string;
+  parentId: number | null;
+  color: string | null;
+  icon: string;
+}
+
+const emptyForm: CategoryFormValues = { name: "", description: "", parentId: null, color: null, icon: "" };
+
+const DEFAULT_COLOR = "#3b82f6";
+
+// Categories as indented options for the parent picker, leaving out the given ids
+function parentOptions(nodes: CategoryWithHierarchy[], excluded: Set<number>, depth = 0): { id: number; label: string }[] {
+  return nodes
+    .filter((node) => !excluded.has(node.id))
+    .flatMap((node) => [
+      { id: node.id, label: `${"\u00a0\u00a0".repeat(depth)}${node.name}` },
+      ...parentOptions(node.children, excluded, depth + 1),
+    ]);
+}
+
+function findCategory(nodes: CategoryWithHierarchy[], id: number): CategoryWithHierarchy | undefined {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findCategory(node.children, id);
+    if (found) return found;
+  }
+  return undefined;
+}
 
 export default function CategoriesPage() {
   const [isCreating, setIsCreating] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
-  const [newCategoryName, setNewCategoryName] = useState("");
-  const [newCategoryDescription, setNewCategoryDescription] = useState("");
+  const [form, setForm] = useState<CategoryFormValues>(emptyForm);
 
   // Queries
-  const { data: categories = [], refetch } = api.category.getAll.useQuery();
+  const { data: tree = [], isLoading } = api.category.getTree.useQuery();
+  const { isSignedIn } = useUser();
+  const { data: me } = api.user.me.useQuery(undefined, { enabled: !!isSignedIn });
+
+  // Only editors and admins can manage categories
+  const canManageCategories = hasRole(me, "editor");
+
+  const utils = api.useUtils();
+
+  const closeForm = () => {
+    setIsCreating(false);
+    setEditingId(null);
+    setForm(emptyForm);
+  };
 
   // Mutations
   const createCategory = api.category.create.useMutation({
-    onSuccess: () => {
-      refetch();
-      setIsCreating(false);
-      setNewCategoryName("");
-      setNewCategoryDescription("");
+    onSuccess: async () => {
+      await utils.category.invalidate();
+      closeForm();
     },
   });
 
-  const deleteCategory = api.category.delete.useMutation({
-    onSuccess: () => {
-      refetch();
+  const updateCategory = api.category.update.useMutation({
+    onSuccess: async () => {
+      await utils.category.invalidate();
+      closeForm();
     },
   });
 
-  const handleCreateSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newCategoryName.trim()) return;
+  const deleteCategory = api.category.delete.useMutation({
+    onSuccess: () => utils.category.invalidate(),
+  });
+
+  // A category can't become a child of itself or of its own subcategories
+  const availableParents = useMemo(() => {
+    const editing = editingId !== null ? findCategory(tree, editingId) : undefined;
+    return parentOptions(tree, editing ? subtreeIds(editing) : new Set());
+  }, [tree, editingId]);
+
+  const saveError = createCategory.error ?? updateCategory.error;
+  const isSaving = createCategory.isPending || updateCategory.isPending;
 
-    await createCategory.mutateAsync({
-      name: newCategoryName.trim(),
-      description: newCategoryDescription.trim() || undefined,
+  const startCreating = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setIsCreating(true);
+  };
+
+  const startEditing = (category: CategoryWithHierarchy) => {
+    setIsCreating(false);
+    setEditingId(category.id);
+    setForm({
+      name: category.name,
+      description: category.description ?? "",
+      parentId: category.parentId,
+      color: category.color,
+      icon: category.icon ?? "",
     });
   };
 
-  const handleDelete = async (id: number) => {
-    if (confirm("Are you sure you want to delete this category?")) {
-      await deleteCategory.mutateAsync(id);
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    const values = {
+      name: form.name.trim(),
+      description: form.description.trim() || undefined,
+      parentId: form.parentId,
+      color: form.color,
+      icon: form.icon,
+    };
+
+    if (editingId !== null) {
+      updateCategory.mutate({ id: editingId, ...values });
+    } else {
+      createCategory.mutate(values);
+    }
+  };
+
+  const handleDelete = (category: CategoryWithHierarchy) => {
+    const message = category.children.length > 0
+      ? `Delete "${category.name}"? Its subcategories will move to the top level.`
+      : `Are you sure you want to delete "${category.name}"?`;
+    if (confirm(message)) {
+      deleteCategory.mutate(category.id);
     }
   };
 
+  const isFormOpen = (isCreating || editingId !== null) && canManageCategories;
+
   return (
     <>
       <SignedOut>
@@ -55,30 +146,40 @@ export default function CategoriesPage() {
       <SignedIn>
         <div className="min-h-screen bg-gray-50">
           <Navbar />
-          
+
           <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8 flex justify-between items-center">
           <div>
             <h1 className="text-3xl font-bold text-gray-900">Categories</h1>
             <p className="text-gray-600 mt-2">
-              Organize your blog posts with categories
+              {canManageCategories
+                ? "Organize your blog posts with categories. Drag a category to reorder it or nest it under another."
+                : "Organize your blog posts with categories"}
             </p>
           </div>
-          
-          <button
-            onClick={() => setIsCreating(true)}
-            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            New Category
-          </button>
+
+          {canManageCategories && (
+            <button
+              onClick={startCreating}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New Category
+            </button>
+          )}
         </div>
 
-        {/* Create Category Form */}
-        {isCreating && (
+        {deleteCategory.error && (
+          <p className="text-sm text-red-600 mb-4">{getErrorMessage(deleteCategory.error)}</p>
+        )}
+
+        {/* Create / Edit Category Form */}
+        {isFormOpen && (
           <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">Create New Category</h2>
-            <form onSubmit={handleCreateSubmit} className="space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingId !== null ? "Edit Category" : "Create New Category"}
+            </h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
                   Name *
@@ -86,43 +187,101 @@ export default function CategoriesPage() {
                 <input
                   type="text"
                   id="name"
-                  value={newCategoryName}
-                  onChange={(e) => setNewCategoryName(e.target.value)}
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   placeholder="Category name..."
                   required
                 />
               </div>
-              
+
               <div>
                 <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
                   Description
                 </label>
                 <textarea
                   id="description"
-                  value={newCategoryDescription}
-                  onChange={(e) => setNewCategoryDescription(e.target.value)}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
                   rows={3}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   placeholder="Optional description..."
                 />
               </div>
-              
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="parent" className="block text-sm font-medium text-gray-700 mb-1">
+                    Parent
+                  </label>
+                  <select
+                    id="parent"
+                    value={form.parentId ?? ""}
+                    onChange={(e) => setForm({ ...form, parentId: e.target.value ? Number(e.target.value) : null })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">None (top level)</option>
+                    {availableParents.map((option) => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="color" className="block text-sm font-medium text-gray-700 mb-1">
+                    Color
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      id="color"
+                      value={form.color ?? DEFAULT_COLOR}
+                      onChange={(e) => setForm({ ...form, color: e.target.value })}
+                      className="h-10 w-14 border border-gray-300 rounded-md"
+                    />
+                    {form.color && (
+                      <button
+                        type="button"
+                        onClick={() => setForm({ ...form, color: null })}
+                        className="text-sm text-gray-600 hover:text-gray-800"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="icon" className="block text-sm font-medium text-gray-700 mb-1">
+                    Icon
+                  </label>
+                  <input
+                    type="text"
+                    id="icon"
+                    value={form.icon}
+                    onChange={(e) => setForm({ ...form, icon: e.target.value })}
+                    maxLength={50}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Emoji or icon name"
+                  />
+                </div>
+              </div>
+
+              {saveError && (
+                <p className="text-sm text-red-600">{getErrorMessage(saveError)}</p>
+              )}
+
               <div className="flex gap-2">
                 <button
                   type="submit"
-                  disabled={createCategory.isPending || !newCategoryName.trim()}
+                  disabled={isSaving || !form.name.trim()}
                   className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-md transition-colors"
                 >
-                  {createCategory.isPending ? "Creating..." : "Create"}
+                  {isSaving ? "Saving..." : editingId !== null ? "Save" : "Create"}
                 </button>
                 <button
                   type="button"
-                  onClick={() => {
-                    setIsCreating(false);
-                    setNewCategoryName("");
-                    setNewCategoryDescription("");
-                  }}
+                  onClick={closeForm}
                   className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
                 >
                   Cancel
@@ -132,59 +291,33 @@ export default function CategoriesPage() {
           </div>
         )}
 
-        {/* Categories List */}
+        {/* Category Tree */}
         <div className="bg-white rounded-lg shadow-sm border">
-          {categories.length > 0 ? (
-            <div className="divide-y divide-gray-200">
-              {categories.map((category) => (
-                <div key={category.id} className="p-6 flex justify-between items-start">
-                  <div className="flex-1">
-                    <h3 className="text-lg font-semibold text-gray-900">
-                      {category.name}
-                    </h3>
-                    {category.description && (
-                      <p className="text-gray-600 mt-1">{category.description}</p>
-                    )}
-                    <p className="text-sm text-gray-400 mt-2">
-                      Slug: {category.slug}
-                    </p>
-                  </div>
-                  
-                  <div className="flex gap-2 ml-4">
-                    <button
-                      onClick={() => setEditingId(category.id)}
-                      className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
-                      title="Edit category"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDelete(category.id)}
-                      disabled={deleteCategory.isPending}
-                      className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
-                      title="Delete category"
-                    >
-                      {deleteCategory.isPending ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <Trash2 className="w-4 h-4" />
-                      )}
-                    </button>
-                  </div>
-                </div>
-              ))}
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
             </div>
+          ) : tree.length > 0 ? (
+            <CategoryTreeEditor
+              tree={tree}
+              canManage={canManageCategories}
+              onEdit={startEditing}
+              onDelete={handleDelete}
+              deletingId={deleteCategory.isPending ? deleteCategory.variables : null}
+            />
           ) : (
             <div className="p-12 text-center">
               <p className="text-gray-500 text-lg">
                 No categories created yet.
               </p>
-              <button
-                onClick={() => setIsCreating(true)}
-                className="mt-4 text-blue-600 hover:text-blue-700 font-medium"
-              >
-                Create your first category
-              </button>
+              {canManageCategories && (
+                <button
+                  onClick={startCreating}
+                  className="mt-4 text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  Create your first category
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -193,4 +326,4 @@ export default function CategoriesPage() {
       </SignedIn>
     </>
   );
-}
\ No newline at end of file
+}
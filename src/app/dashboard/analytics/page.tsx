@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { SignedIn, SignedOut, RedirectToSignIn } from '@clerk/nextjs';
+import { Navbar } from "@/components/Navbar";
+import { AnalyticsChart } from "@/components/AnalyticsChart";
+import { api } from "@/trpc/react";
+import { Loader2, ArrowLeft, BarChart3, Globe, X } from "lucide-react";
+import { cn, getErrorMessage } from "@/lib/utils";
+import type { AnalyticsFilters } from "@/lib/validations";
+import { Alert } from "@/components/ui";
+import type { AnalyticsTotals } from "@/types";
+import Link from "next/link";
+
+type Metric = keyof AnalyticsTotals;
+
+const PERIODS: AnalyticsFilters["days"][] = [7, 30, 90];
+
+const METRICS: { key: Metric; label: string; color: string }[] = [
+  { key: "views", label: "Views", color: "#2563eb" },
+  { key: "reads", label: "Reads", color: "#16a34a" },
+  { key: "comments", label: "Comments", color: "#ea580c" },
+  { key: "likes", label: "Reactions", color: "#db2777" },
+];
+
+/** Change against the previous period, e.g. "+12%"; null when there's nothing to compare with. */
+function formatChange(current: number, previous: number): string | null {
+  if (previous === 0) return current > 0 ? "new" : null;
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change > 0 ? "+" : ""}${change}%`;
+}
+
+export default function AnalyticsPage() {
+  const [days, setDays] = useState<AnalyticsFilters["days"]>(30);
+  const [metric, setMetric] = useState<Metric>("views");
+  const [selectedPost, setSelectedPost] = useState<{ id: number; title: string } | null>(null);
+
+  const postId = selectedPost?.id;
+
+  const { data: comparison = [], isLoading: comparisonLoading, error: comparisonError } =
+    api.analytics.getComparison.useQuery({ postId });
+  const { data: series = [], isLoading: seriesLoading } = api.analytics.getTimeSeries.useQuery({ days, postId });
+  const { data: postStats = [], isLoading: postStatsLoading } = api.analytics.getPostStats.useQuery({ days });
+  const { data: referrers = [] } = api.analytics.getTopReferrers.useQuery({ days, postId });
+
+  const selectedMetric = METRICS.find((item) => item.key === metric) ?? METRICS[0]!;
+
+  return (
+    <>
+      <SignedOut>
+        <RedirectToSignIn />
+      </SignedOut>
+      <SignedIn>
+        <div className="min-h-screen bg-gray-50">
+          <Navbar />
+
+          <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Back Button */}
+            <div className="mb-6">
+              <Link
+                href="/dashboard"
+                className="inline-flex items-center text-blue-600 hover:text-blue-700 transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Link>
+            </div>
+
+            <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
+                <p className="text-gray-700 mt-2">
+                  How readers engage with {selectedPost ? "this post" : "your posts"}
+                </p>
+                {selectedPost && (
+                  <button
+                    onClick={() => setSelectedPost(null)}
+                    className="mt-3 inline-flex items-center gap-1 bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm hover:bg-blue-200 transition-colors"
+                  >
+                    {selectedPost.title}
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+
+              {/* Period */}
+              <div className="inline-flex rounded-lg border bg-white p-1">
+                {PERIODS.map((period) => (
+                  <button
+                    key={period}
+                    onClick={() => setDays(period)}
+                    className={cn(
+                      "px-3 py-1.5 rounded-md text-sm font-medium transition-colors",
+                      days === period ? "bg-blue-600 text-white" : "text-gray-700 hover:bg-gray-100"
+                    )}
+                  >
+                    Last {period} days
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {comparisonError && (
+              <Alert variant="error" className="mb-6" title="Couldn't load analytics" description={getErrorMessage(comparisonError)} />
+            )}
+
+            {/* Period Comparison */}
+            <div className="bg-white rounded-xl shadow-sm border mb-8 overflow-x-auto">
+              {comparisonLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                </div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="p-4 font-medium">Period</th>
+                      {METRICS.map((item) => (
+                        <th key={item.key} className="p-4 font-medium text-right">{item.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {comparison.map((period) => (
+                      <tr key={period.days} className={cn(period.days === days && "bg-blue-50")}>
+                        <td className="p-4 font-medium text-gray-900">Last {period.days} days</td>
+                        {METRICS.map((item) => {
+                          const change = formatChange(period.current[item.key], period.previous[item.key]);
+                          return (
+                            <td key={item.key} className="p-4 text-right">
+                              <span className="font-semibold text-gray-900">
+                                {period.current[item.key].toLocaleString()}
+                              </span>
+                              {change && (
+                                <span
+                                  className={cn(
+                                    "ml-2 text-xs",
+                                    period.current[item.key] >= period.previous[item.key] ? "text-green-600" : "text-red-600"
+                                  )}
+                                  title={`${period.previous[item.key].toLocaleString()} in the previous ${period.days} days`}
+                                >
+                                  {change}
+                                </span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+              {/* Time Series */}
+              <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border p-6">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <BarChart3 className="w-5 h-5" />
+                    {selectedMetric.label} per day
+                  </h2>
+                  <div className="flex gap-1">
+                    {METRICS.map((item) => (
+                      <button
+                        key={item.key}
+                        onClick={() => setMetric(item.key)}
+                        className={cn(
+                          "px-2.5 py-1 rounded-md text-xs font-medium transition-colors",
+                          metric === item.key ? "bg-gray-900 text-white" : "text-gray-700 hover:bg-gray-100"
+                        )}
+                      >
+                        {item.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {seriesLoading ? (
+                  <div className="flex items-center justify-center h-40">
+                    <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+                  </div>
+                ) : (
+                  <AnalyticsChart series={series} metric={metric} color={selectedMetric.color} />
+                )}
+              </div>
+
+              {/* Top Referrers */}
+              <div className="bg-white rounded-xl shadow-sm border p-6">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-4">
+                  <Globe className="w-5 h-5" />
+                  Top referrers
+                </h2>
+                {referrers.length > 0 ? (
+                  <ul className="space-y-2 text-sm">
+                    {referrers.map((referrer) => (
+                      <li key={referrer.host} className="flex justify-between gap-4">
+                        <span className="text-gray-800 truncate">{referrer.host}</span>
+                        <span className="font-medium text-gray-900">{referrer.views.toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-600">No visits from other sites in this period.</p>
+                )}
+              </div>
+            </div>
+
+            {/* Per-Post Stats */}
+            <div className="bg-white rounded-xl shadow-sm border overflow-x-auto">
+              <div className="p-4 border-b">
+                <h2 className="text-lg font-semibold text-gray-900">Posts</h2>
+                <p className="text-sm text-gray-600">Select a post to see its own trends and referrers</p>
+              </div>
+              {postStatsLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                </div>
+              ) : postStats.length > 0 ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="p-4 font-medium">Post</th>
+                      {METRICS.map((item) => (
+                        <th key={item.key} className="p-4 font-medium text-right">{item.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {postStats.map((post) => (
+                      <tr
+                        key={post.id}
+                        onClick={() => setSelectedPost({ id: post.id, title: post.title })}
+                        className={cn("cursor-pointer hover:bg-gray-50", post.id === postId && "bg-blue-50")}
+                      >
+                        <td className="p-4 font-medium text-gray-900">{post.title}</td>
+                        {METRICS.map((item) => (
+                          <td key={item.key} className="p-4 text-right text-gray-800">
+                            {post[item.key].toLocaleString()}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="text-center py-12">
+                  <BarChart3 className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-xl font-semibold text-gray-900 mb-2">No published posts yet</h3>
+                  <p className="text-gray-700">Stats appear here once your posts start getting readers.</p>
+                </div>
+              )}
+            </div>
+          </main>
+        </div>
+      </SignedIn>
+    </>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SignedIn, SignedOut, RedirectToSignIn } from '@clerk/nextjs';
+import { Navbar } from "@/components/Navbar";
+import { api } from "@/trpc/react";
+import { Loader2, ArrowLeft, Check, X, MessageSquare, ChevronLeft, ChevronRight } from "lucide-react";
+import { formatRelativeTime, getErrorMessage } from "@/lib/utils";
+import { Alert } from "@/components/ui";
+import Link from "next/link";
+
+const PAGE_SIZE = 20;
+
+export default function ModerationPage() {
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  const utils = api.useUtils();
+
+  // Pending comments across the posts this user moderates
+  const { data, isLoading } = api.comment.listPending.useQuery({
+    limit: PAGE_SIZE,
+    offset: (page - 1) * PAGE_SIZE,
+  });
+
+  const items = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Moderating everything on the last page empties it - step back to the new last page
+  useEffect(() => {
+    if (data && page > totalPages) setPage(totalPages);
+  }, [data, page, totalPages]);
+
+  const onModerated = async () => {
+    setSelectedIds([]);
+    await Promise.all([
+      utils.comment.listPending.invalidate(),
+      utils.comment.getModerationCounts.invalidate(),
+    ]);
+  };
+
+  const approve = api.comment.approve.useMutation({ onSuccess: onModerated });
+  const reject = api.comment.reject.useMutation({ onSuccess: onModerated });
+
+  const isMutating = approve.isPending || reject.isPending;
+  const error = approve.error ?? reject.error;
+  const allSelected = items.length > 0 && items.every((item) => selectedIds.includes(item.id));
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev =>
+      prev.includes(id)
+        ? prev.filter(selectedId => selectedId !== id)
+        : [...prev, id]
+    );
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : items.map((item) => item.id));
+  };
+
+  // Failures show in the "Moderation failed" alert
+  const handleBulkReject = () => {
+    if (!confirm(`Reject ${selectedIds.length} comments?`)) return;
+    reject.mutate({ ids: selectedIds });
+  };
+
+  return (
+    <>
+      <SignedOut>
+        <RedirectToSignIn />
+      </SignedOut>
+      <SignedIn>
+        <div className="min-h-screen bg-gray-50">
+          <Navbar />
+
+          <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Back Button */}
+            <div className="mb-6">
+              <Link
+                href="/dashboard"
+                className="inline-flex items-center text-blue-600 hover:text-blue-700 transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Link>
+            </div>
+
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold text-gray-900">Comment Moderation</h1>
+              <p className="text-gray-700 mt-2">
+                Review comments waiting for approval on your posts
+              </p>
+            </div>
+
+            {error && (
+              <Alert variant="error" className="mb-6" title="Moderation failed" description={getErrorMessage(error)} />
+            )}
+
+            <div className="bg-white rounded-xl shadow-sm border">
+              {/* Bulk Actions */}
+              <div className="p-4 border-b flex flex-wrap items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    disabled={items.length === 0}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Select all ({total} pending)
+                </label>
+
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => approve.mutate({ ids: selectedIds })}
+                    disabled={selectedIds.length === 0 || isMutating}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-md text-sm bg-green-600 hover:bg-green-700 text-white transition-colors disabled:opacity-50"
+                  >
+                    <Check className="w-4 h-4" />
+                    Approve selected
+                  </button>
+                  <button
+                    onClick={handleBulkReject}
+                    disabled={selectedIds.length === 0 || isMutating}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-md text-sm bg-red-600 hover:bg-red-700 text-white transition-colors disabled:opacity-50"
+                  >
+                    <X className="w-4 h-4" />
+                    Reject selected
+                  </button>
+                </div>
+              </div>
+
+              {/* Pending Comments */}
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                </div>
+              ) : items.length > 0 ? (
+                <ul className="divide-y divide-gray-100">
+                  {items.map((item) => (
+                    <li key={item.id} className="p-4 flex gap-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(item.id)}
+                        onChange={() => toggleSelected(item.id)}
+                        className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        aria-label="Select comment"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-gray-600 mb-1">
+                          <span className="font-medium text-gray-900">{item.author.username}</span>
+                          {" "}{item.parentId ? "replied on" : "commented on"}{" "}
+                          <Link href={`/posts/${item.post.slug}`} className="text-blue-600 hover:text-blue-700">
+                            {item.post.title}
+                          </Link>
+                          <span className="ml-2 text-gray-500">{formatRelativeTime(item.createdAt)}</span>
+                        </div>
+                        <p className="text-gray-800 whitespace-pre-wrap break-words">{item.content}</p>
+                      </div>
+                      <div className="flex items-start gap-1">
+                        <button
+                          onClick={() => approve.mutate({ ids: [item.id] })}
+                          disabled={isMutating}
+                          className="p-2 text-green-600 hover:bg-green-50 rounded-md transition-colors disabled:opacity-50"
+                          title="Approve comment"
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => reject.mutate({ ids: [item.id] })}
+                          disabled={isMutating}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-md transition-colors disabled:opacity-50"
+                          title="Reject comment"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-center py-12">
+                  <MessageSquare className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-xl font-semibold text-gray-900 mb-2">All caught up</h3>
+                  <p className="text-gray-700">There are no comments waiting for approval.</p>
+                </div>
+              )}
+            </div>
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="mt-6 flex justify-center items-center gap-4">
+                <button
+                  onClick={() => setPage(prev => Math.max(1, prev - 1))}
+                  disabled={page === 1}
+                  className="p-2 rounded-md border border-gray-300 text-gray-700 hover:text-gray-900 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                </button>
+                <span className="text-sm text-gray-700">Page {page} of {totalPages}</span>
+                <button
+                  onClick={() => setPage(prev => Math.min(totalPages, prev + 1))}
+                  disabled={page === totalPages}
+                  className="p-2 rounded-md border border-gray-300 text-gray-700 hover:text-gray-900 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              </div>
+            )}
+          </main>
+        </div>
+      </SignedIn>
+    </>
+  );
+}
@@ -5,25 +5,31 @@ import { Navbar } from "@/components/Navbar";
 import { FilterBar } from "@/components/FilterBar";
 import { PostCard } from "@/components/PostCard";
 import { useFilterStore } from "@/stores/filterStore";
+import { postListingInput } from "@/lib/post-listing";
 import { api } from "@/trpc/react";
-import { Loader2, PlusCircle, BookOpen, Users, TrendingUp } from "lucide-react";
+import { Loader2, PlusCircle, BookOpen, Users, TrendingUp, MessageSquare, CalendarClock, BarChart3 } from "lucide-react";
+import { formatDateTime, formatRelativeTime } from "@/lib/utils";
 import Link from "next/link";
 
 export default function DashboardPage() {
-  const { searchQuery, selectedCategoryId, showPublishedOnly } = useFilterStore();
+  const filters = useFilterStore();
   
   // Fetch posts with filters
-  const { data: posts, isLoading: postsLoading } = api.post.getAll.useQuery({
-    search: searchQuery || undefined,
-    categoryId: selectedCategoryId || undefined,
-    published: showPublishedOnly || undefined,
+  const { data: postPage, isLoading: postsLoading } = api.post.getAll.useQuery({
+    ...postListingInput(filters),
     limit: 20,
-    offset: 0,
   });
+  const posts = postPage?.items;
 
   // Fetch categories for filter
   const { data: categories = [] } = api.category.getAll.useQuery();
 
+  // Comments waiting for moderation on the user's posts
+  const { data: moderationCounts } = api.comment.getModerationCounts.useQuery();
+
+  // The user's posts waiting to go live
+  const { data: scheduledPosts = [] } = api.post.getScheduled.useQuery({ limit: 5 });
+
   return (
     <>
       <SignedOut>
@@ -56,7 +62,7 @@ export default function DashboardPage() {
             </div>
 
             {/* Stats Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
               <div className="bg-white rounded-xl shadow-sm border p-6">
                 <div className="flex items-center">
                   <div className="bg-blue-100 p-3 rounded-lg">
@@ -98,6 +104,23 @@ export default function DashboardPage() {
                   </div>
                 </div>
               </div>
+
+              <Link
+                href="/dashboard/moderation"
+                className="bg-white rounded-xl shadow-sm border p-6 hover:shadow-md transition-shadow"
+              >
+                <div className="flex items-center">
+                  <div className="bg-orange-100 p-3 rounded-lg">
+                    <MessageSquare className="w-6 h-6 text-orange-600" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-700">Pending Comments</p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {moderationCounts ? moderationCounts.pending : '-'}
+                    </p>
+                  </div>
+                </div>
+              </Link>
             </div>
 
             {/* Filter Bar */}
@@ -136,7 +159,7 @@ export default function DashboardPage() {
                     <BookOpen className="w-16 h-16 text-gray-400 mx-auto mb-4" />
                     <h3 className="text-xl font-semibold text-gray-900 mb-2">No posts found</h3>
                     <p className="text-gray-700 mb-6">
-                      {searchQuery || selectedCategoryId || showPublishedOnly
+                      {filters.getActiveFiltersCount() > 0
                         ? "No posts match your current filters."
                         : "Get started by creating your first post!"}
                     </p>
@@ -152,6 +175,37 @@ export default function DashboardPage() {
               </div>
             </div>
 
+            {/* Upcoming Scheduled Posts */}
+            {scheduledPosts.length > 0 && (
+              <div className="mt-8 bg-white rounded-xl shadow-sm border">
+                <div className="p-6 border-b">
+                  <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                    <CalendarClock className="w-5 h-5 text-purple-600" />
+                    Upcoming Scheduled Posts
+                  </h2>
+                </div>
+                <ul className="divide-y divide-gray-100">
+                  {scheduledPosts.map((post) => (
+                    <li key={post.id} className="p-4 flex items-center justify-between gap-4">
+                      <Link
+                        href={`/posts/${post.slug}/edit`}
+                        className="font-medium text-gray-900 hover:text-blue-600 transition-colors truncate"
+                      >
+                        {post.title}
+                      </Link>
+                      {post.scheduledAt && (
+                        <span className="text-sm text-gray-700 whitespace-nowrap" title={formatDateTime(post.scheduledAt)}>
+                          {post.scheduledAt > new Date()
+                            ? formatDateTime(post.scheduledAt)
+                            : `Due ${formatRelativeTime(post.scheduledAt)}`}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Quick Actions */}
             <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="bg-white rounded-xl shadow-sm border p-6">
@@ -175,6 +229,24 @@ export default function DashboardPage() {
                       <span className="font-medium text-gray-900">Manage Categories</span>
                     </div>
                   </Link>
+                  <Link
+                    href="/dashboard/moderation"
+                    className="block w-full text-left p-3 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-center">
+                      <MessageSquare className="w-5 h-5 text-gray-900 mr-3" />
+                      <span className="font-medium text-gray-900">Moderate Comments</span>
+                    </div>
+                  </Link>
+                  <Link
+                    href="/dashboard/analytics"
+                    className="block w-full text-left p-3 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-center">
+                      <BarChart3 className="w-5 h-5 text-gray-900 mr-3" />
+                      <span className="font-medium text-gray-900">View Analytics</span>
+                    </div>
+                  </Link>
                 </div>
               </div>
 
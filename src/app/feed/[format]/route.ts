@@ -0,0 +1,11 @@
+import { parseFeedFormat } from "@/lib/feed";
+import { feedResponse } from "@/server/feeds";
+
+/**
+ * Site-wide feed of published posts
+ * /feed/rss.xml or /feed/atom.xml; add ?content=full for full post HTML
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ format: string }> }) {
+  const { format } = await params;
+  return feedResponse(req, { type: "site" }, parseFeedFormat(format));
+}
@@ -0,0 +1,11 @@
+import { parseFeedFormat } from "@/lib/feed";
+import { feedResponse } from "@/server/feeds";
+
+/**
+ * Feed of one author's published posts
+ * /feed/author/{username}/rss.xml or /feed/author/{username}/atom.xml; add ?content=full for full post HTML
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ username: string; format: string }> }) {
+  const { username, format } = await params;
+  return feedResponse(req, { type: "author", username }, parseFeedFormat(format));
+}
@@ -0,0 +1,11 @@
+import { parseFeedFormat } from "@/lib/feed";
+import { feedResponse } from "@/server/feeds";
+
+/**
+ * Feed of published posts in one category
+ * /feed/category/{slug}/rss.xml or /feed/category/{slug}/atom.xml; add ?content=full for full post HTML
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ slug: string; format: string }> }) {
+  const { slug, format } = await params;
+  return feedResponse(req, { type: "category", slug }, parseFeedFormat(format));
+}
@@ -0,0 +1,11 @@
+import { parseFeedFormat } from "@/lib/feed";
+import { feedResponse } from "@/server/feeds";
+
+/**
+ * Feed of published posts with one tag
+ * /feed/tag/{slug}/rss.xml or /feed/tag/{slug}/atom.xml; add ?content=full for full post HTML
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ slug: string; format: string }> }) {
+  const { slug, format } = await params;
+  return feedResponse(req, { type: "tag", slug }, parseFeedFormat(format));
+}
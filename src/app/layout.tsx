@@ -3,12 +3,25 @@ import { Inter } from "next/font/google";
 import ClientClerkProvider from '@/components/ClientClerkProvider';
 import "./globals.css";
 import { TRPCReactProvider } from "@/trpc/react";
+import { StoreHydration } from "@/components/StoreHydration";
+import { SITE_DESCRIPTION, SITE_NAME, getSiteUrl } from "@/lib/site";
 
 const inter = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
-  title: "Full-Stack Blog Platform",
-  description: "A modern blogging platform built with Next.js 15, TypeScript, tRPC, and PostgreSQL",
+  metadataBase: new URL(getSiteUrl()),
+  title: {
+    default: SITE_NAME,
+    template: `%s | ${SITE_NAME}`,
+  },
+  description: SITE_DESCRIPTION,
+  // Feed autodiscovery for readers
+  alternates: {
+    types: {
+      "application/rss+xml": "/feed/rss.xml",
+      "application/atom+xml": "/feed/atom.xml",
+    },
+  },
 };
 
 export default function RootLayout({
@@ -21,6 +34,7 @@ export default function RootLayout({
       <body className={inter.className}>
         <ClientClerkProvider>
           <TRPCReactProvider>
+            <StoreHydration />
             {children}
           </TRPCReactProvider>
         </ClientClerkProvider>
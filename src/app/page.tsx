@@ -1,25 +1,37 @@
 /**
- * Home Page - Landing page with auto-redirect for authenticated users
+ * Home Page
  * 
- * Authenticated users are automatically redirected to /dashboard
+ * Authenticated users get their feed: the latest posts, or posts from the authors and tags they follow
  * Unauthenticated users see a clean landing page with sign-in option
+ * and the latest published posts, rendered on the server
  */
 
 import { SignInButton, SignUpButton, SignedIn, SignedOut } from '@clerk/nextjs';
 import { auth } from '@clerk/nextjs/server';
-import { redirect } from 'next/navigation';
 import Link from "next/link";
-import { BookOpen, Users, Zap, PenTool, PlusCircle, Filter } from "lucide-react";
+import { BookOpen, Users, Zap, PenTool, PlusCircle, Filter, ArrowRight } from "lucide-react";
+import { HomeFeed } from "@/components/HomeFeed";
+import { PostCard } from "@/components/PostCard";
+import { LATEST_POSTS_INPUT } from "@/lib/post-listing";
+import { HydrateClient, api } from "@/trpc/server";
 
 export default async function HomePage() {
-  // Check if user is authenticated - if yes, redirect to dashboard
   const { userId } = await auth();
   
   if (userId) {
-    redirect('/dashboard');
+    // The Latest tab renders from the server; the Following tab is personal and loads on the client
+    await api.post.getAll.prefetchInfinite(LATEST_POSTS_INPUT);
+
+    return (
+      <HydrateClient>
+        <HomeFeed />
+      </HydrateClient>
+    );
   }
 
-  // Only unauthenticated users see this page
+  const { items: latestPosts } = await api.post.getAll({ published: true, limit: 6 });
+
+  // Landing page for unauthenticated users
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
       {/* Navigation */}
@@ -78,6 +90,29 @@ export default async function HomePage() {
         </div>
       </div>
 
+      {/* Latest Posts */}
+      {latestPosts.length > 0 && (
+        <div className="py-16">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-end mb-8">
+              <h2 className="text-3xl font-bold text-gray-900">Latest Stories</h2>
+              <Link
+                href="/posts"
+                className="inline-flex items-center text-blue-600 hover:text-blue-700 font-medium transition-colors"
+              >
+                Browse all posts
+                <ArrowRight className="w-4 h-4 ml-1" />
+              </Link>
+            </div>
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {latestPosts.map((post) => (
+                <PostCard key={post.id} post={post} />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Features Section */}
       <div className="py-24 bg-white">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -5,9 +5,17 @@ import { useRouter } from "next/navigation";
 import { SignedIn, SignedOut, RedirectToSignIn } from '@clerk/nextjs';
 import { Navbar } from "@/components/Navbar";
 import { RichTextEditor } from "@/components/RichTextEditor";
+import { TagInput, type TagOption } from "@/components/TagInput";
+import { PublishSettings } from "@/components/PublishSettings";
+import { SeoSettings } from "@/components/SeoSettings";
+import { RevisionsPanel } from "@/components/RevisionsPanel";
+import { DraftAutosavePrompts, DraftAutosaveStatus } from "@/components/DraftAutosaveStatus";
+import { useDraftAutosave } from "@/hooks/useDraftAutosave";
 import { api } from "@/trpc/react";
-import { Save, Eye, EyeOff, ArrowLeft, Loader2 } from "lucide-react";
+import { Save, ArrowLeft, Loader2, History } from "lucide-react";
 import Link from "next/link";
+import { getErrorMessage } from "@/lib/utils";
+import type { EditorDraft } from "@/types";
 
 export default function EditPostPage({ params }: { params: Promise<{ slug: string }> }) {
   const router = useRouter();
@@ -16,7 +24,17 @@ export default function EditPostPage({ params }: { params: Promise<{ slug: strin
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
   const [published, setPublished] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState<Date | null>(null);
+  const [autoApproveComments, setAutoApproveComments] = useState(false);
   const [selectedCategories, setSelectedCategories] = useState<number[]>([]);
+  const [selectedTags, setSelectedTags] = useState<TagOption[]>([]);
+  const [tagRestoreError, setTagRestoreError] = useState<string | null>(null);
+  const [seoTitle, setSeoTitle] = useState("");
+  const [seoDescription, setSeoDescription] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  const utils = api.useUtils();
 
   // Fetch the post to edit
   const { data: post, isLoading: postLoading } = api.post.getBySlug.useQuery(slug);
@@ -37,10 +55,56 @@ export default function EditPostPage({ params }: { params: Promise<{ slug: strin
       setTitle(post.title || '');
       setContent(post.content || '');
       setPublished(post.published || false);
+      setScheduledAt(post.scheduledAt);
+      setAutoApproveComments(post.autoApproveComments);
       setSelectedCategories(post.categories?.map(cat => cat.id) || []);
+      setSelectedTags(post.tags ?? []);
+      setSeoTitle(post.seoTitle ?? '');
+      setSeoDescription(post.seoDescription ?? '');
+      setLoaded(true);
     }
   }, [post]);
 
+  // Autosave edits to the server; waits until the form holds the post's values
+  const autosave = useDraftAutosave({
+    postId: post?.id ?? null,
+    ready: loaded && !!post,
+    savedAt: post?.updatedAt ?? null,
+    draft: {
+      title,
+      content,
+      excerpt: post?.excerpt ?? "",
+      slug: post?.slug ?? "",
+      selectedCategoryIds: selectedCategories,
+      selectedTagIds: selectedTags.map(tag => tag.id),
+      published,
+      featured: post?.featured ?? false,
+      seoTitle,
+      seoDescription,
+      scheduledAt,
+      autoApproveComments,
+    },
+    onRestore: (draft: EditorDraft) => {
+      setTitle(draft.title);
+      setContent(draft.content);
+      setPublished(draft.published);
+      setSelectedCategories(draft.selectedCategoryIds);
+      setSeoTitle(draft.seoTitle);
+      setSeoDescription(draft.seoDescription);
+      if (draft.scheduledAt !== undefined) setScheduledAt(draft.scheduledAt);
+      if (draft.autoApproveComments !== undefined) setAutoApproveComments(draft.autoApproveComments);
+      setTagRestoreError(null);
+      if (draft.selectedTagIds.length > 0) {
+        utils.tag.getByIds
+          .fetch({ ids: draft.selectedTagIds })
+          .then(setSelectedTags)
+          .catch((err) => setTagRestoreError(`Couldn't restore the draft's tags: ${getErrorMessage(err)}`));
+      } else {
+        setSelectedTags([]);
+      }
+    },
+  });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim() || !content.trim() || !post) return;
@@ -50,10 +114,25 @@ export default function EditPostPage({ params }: { params: Promise<{ slug: strin
       title: title.trim(),
       content: content.trim(),
       published,
+      // Only send a changed schedule; the stored time may already be past and would fail the future-only check
+      scheduledAt: scheduledAt?.getTime() === post.scheduledAt?.getTime() ? undefined : scheduledAt,
+      autoApproveComments,
       categoryIds: selectedCategories,
+      tagIds: selectedTags.map(tag => tag.id),
+      seoTitle,
+      seoDescription,
     });
   };
 
+  // Restoring may change the title (and so the slug); reload the form from the restored post
+  const handleRestored = async (restored: { slug: string }) => {
+    if (restored.slug !== slug) {
+      router.replace(`/posts/${restored.slug}/edit`);
+    } else {
+      await utils.post.getBySlug.invalidate(slug);
+    }
+  };
+
   const handleCategoryToggle = (categoryId: number) => {
     setSelectedCategories(prev =>
       prev.includes(categoryId)
@@ -130,10 +209,15 @@ export default function EditPostPage({ params }: { params: Promise<{ slug: strin
 
             <div className="bg-white rounded-lg shadow-sm border">
               <div className="p-6 border-b">
-                <h1 className="text-2xl font-bold text-gray-900">Edit Post</h1>
+                <div className="flex justify-between items-center">
+                  <h1 className="text-2xl font-bold text-gray-900">Edit Post</h1>
+                  <DraftAutosaveStatus autosave={autosave} />
+                </div>
               </div>
               
               <form onSubmit={handleSubmit} className="p-6 space-y-6">
+                <DraftAutosavePrompts autosave={autosave} />
+
                 {/* Title */}
                 <div>
                   <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
@@ -185,22 +269,48 @@ export default function EditPostPage({ params }: { params: Promise<{ slug: strin
                   </div>
                 )}
 
-                {/* Published Toggle */}
-                <div className="flex items-center gap-3">
-                  <button
-                    type="button"
-                    onClick={() => setPublished(!published)}
-                    className={`flex items-center gap-2 px-4 py-2 rounded-md transition-colors ${
-                      published
-                        ? "bg-green-100 text-green-800"
-                        : "bg-gray-100 text-gray-700"
-                    }`}
-                  >
-                    {published ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
-                    {published ? "Published" : "Draft"}
-                  </button>
+                {/* Tags */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tags
+                  </label>
+                  <TagInput value={selectedTags} onChange={setSelectedTags} />
+                  {tagRestoreError && <p className="mt-1 text-sm text-red-600">{tagRestoreError}</p>}
                 </div>
 
+                {/* Comment Moderation */}
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={autoApproveComments}
+                    onChange={(e) => setAutoApproveComments(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Auto-approve comments from readers you&apos;ve approved before
+                </label>
+
+                {/* Search Engine Listing */}
+                <SeoSettings
+                  title={title}
+                  content={content}
+                  seoTitle={seoTitle}
+                  seoDescription={seoDescription}
+                  onChange={(value) => {
+                    setSeoTitle(value.seoTitle);
+                    setSeoDescription(value.seoDescription);
+                  }}
+                />
+
+                {/* Publish State */}
+                <PublishSettings
+                  published={published}
+                  scheduledAt={scheduledAt}
+                  onChange={(value) => {
+                    setPublished(value.published);
+                    setScheduledAt(value.scheduledAt);
+                  }}
+                />
+
                 {/* Submit Button */}
                 <div className="flex gap-4">
                   <button
@@ -218,9 +328,21 @@ export default function EditPostPage({ params }: { params: Promise<{ slug: strin
                   >
                     Cancel
                   </Link>
+
+                  <button
+                    type="button"
+                    onClick={() => setShowHistory(!showHistory)}
+                    className="ml-auto flex items-center gap-2 px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+                  >
+                    <History className="w-4 h-4" />
+                    {showHistory ? "Hide History" : "History"}
+                  </button>
                 </div>
               </form>
             </div>
+
+            {/* Revision History */}
+            {showHistory && <RevisionsPanel postId={post.id} onRestored={handleRestored} />}
           </main>
         </div>
       </SignedIn>
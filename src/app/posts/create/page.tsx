@@ -5,23 +5,75 @@ import { useRouter } from "next/navigation";
 import { SignedIn, SignedOut, RedirectToSignIn } from '@clerk/nextjs';
 import { Navbar } from "@/components/Navbar";
 import { RichTextEditor } from "@/components/RichTextEditor";
+import { TagInput, type TagOption } from "@/components/TagInput";
+import { PublishSettings } from "@/components/PublishSettings";
+import { SeoSettings } from "@/components/SeoSettings";
+import { DraftAutosavePrompts, DraftAutosaveStatus } from "@/components/DraftAutosaveStatus";
+import { useDraftAutosave } from "@/hooks/useDraftAutosave";
 import { api } from "@/trpc/react";
-import { Save, Eye, EyeOff, FileText, Clock } from "lucide-react";
-import { calculatePostStats, extractPreview, formatDate } from "@/lib/utils";
+import { Save, Eye, FileText, Clock } from "lucide-react";
+import { calculatePostStats, extractPreview, formatDate, getErrorMessage } from "@/lib/utils";
 import { Alert } from '@/components/ui';
 import { TRPCClientError } from '@trpc/client';
+import type { EditorDraft } from "@/types";
 
 export default function CreatePostPage() {
   const router = useRouter();
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
   const [published, setPublished] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState<Date | null>(null);
+  const [autoApproveComments, setAutoApproveComments] = useState(false);
   const [selectedCategories, setSelectedCategories] = useState<number[]>([]);
+  const [selectedTags, setSelectedTags] = useState<TagOption[]>([]);
+  const [tagRestoreError, setTagRestoreError] = useState<string | null>(null);
+  const [seoTitle, setSeoTitle] = useState("");
+  const [seoDescription, setSeoDescription] = useState("");
   const [isPreview, setIsPreview] = useState(false);
+  const utils = api.useUtils();
 
   // Fetch categories
   const { data: categories = [] } = api.category.getAll.useQuery();
 
+  // Autosave the new post to the server while it's being written
+  const autosave = useDraftAutosave({
+    postId: null,
+    ready: true,
+    draft: {
+      title,
+      content,
+      excerpt: "",
+      slug: "",
+      selectedCategoryIds: selectedCategories,
+      selectedTagIds: selectedTags.map(tag => tag.id),
+      published,
+      featured: false,
+      seoTitle,
+      seoDescription,
+      scheduledAt,
+      autoApproveComments,
+    },
+    onRestore: (draft: EditorDraft) => {
+      setTitle(draft.title);
+      setContent(draft.content);
+      setPublished(draft.published);
+      setSelectedCategories(draft.selectedCategoryIds);
+      setSeoTitle(draft.seoTitle);
+      setSeoDescription(draft.seoDescription);
+      if (draft.scheduledAt !== undefined) setScheduledAt(draft.scheduledAt);
+      if (draft.autoApproveComments !== undefined) setAutoApproveComments(draft.autoApproveComments);
+      setTagRestoreError(null);
+      if (draft.selectedTagIds.length > 0) {
+        utils.tag.getByIds
+          .fetch({ ids: draft.selectedTagIds })
+          .then(setSelectedTags)
+          .catch((err) => setTagRestoreError(`Couldn't restore the draft's tags: ${getErrorMessage(err)}`));
+      } else {
+        setSelectedTags([]);
+      }
+    },
+  });
+
   // Create post mutation
   const createPost = api.post.create.useMutation({
     onSuccess: (data) => {
@@ -40,7 +92,12 @@ export default function CreatePostPage() {
         title: title.trim(),
         content: content.trim(),
         published,
+        scheduledAt,
+        autoApproveComments,
         categoryIds: selectedCategories,
+        tagIds: selectedTags.map(tag => tag.id),
+        seoTitle,
+        seoDescription,
       });
     } catch (err: any) {
       // Best-effort extraction of message and zod field errors from tRPC
@@ -107,6 +164,8 @@ export default function CreatePostPage() {
               
               {/* Preview Toggle */}
               <div className="flex items-center gap-4">
+                <DraftAutosaveStatus autosave={autosave} />
+
                 {title && content && (
                   <div className="flex items-center gap-4 text-sm text-gray-700">
                     <div className="flex items-center gap-1">
@@ -158,6 +217,20 @@ export default function CreatePostPage() {
                         ))}
                       </div>
                     )}
+
+                    {selectedTags.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <span>Tags:</span>
+                        {selectedTags.map((tag) => (
+                          <span
+                            key={tag.id}
+                            className="bg-gray-100 text-gray-700 px-2 py-1 rounded-full text-xs"
+                          >
+                            #{tag.name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -173,6 +246,7 @@ export default function CreatePostPage() {
             {errorMessage && (
               <Alert variant="error" title="Unable to create post" description={errorMessage} />
             )}
+            <DraftAutosavePrompts autosave={autosave} />
             {/* Title */}
             <div>
               <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
@@ -224,22 +298,48 @@ export default function CreatePostPage() {
               </div>
             )}
 
-            {/* Published Toggle */}
-            <div className="flex items-center gap-3">
-              <button
-                type="button"
-                onClick={() => setPublished(!published)}
-                className={`flex items-center gap-2 px-4 py-2 rounded-md transition-colors ${
-                  published
-                    ? "bg-green-100 text-green-800"
-                    : "bg-gray-100 text-gray-700"
-                }`}
-              >
-                {published ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
-                {published ? "Published" : "Draft"}
-              </button>
+            {/* Tags */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Tags
+              </label>
+              <TagInput value={selectedTags} onChange={setSelectedTags} />
+              {tagRestoreError && <p className="mt-1 text-sm text-red-600">{tagRestoreError}</p>}
             </div>
 
+            {/* Comment Moderation */}
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={autoApproveComments}
+                onChange={(e) => setAutoApproveComments(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Auto-approve comments from readers you&apos;ve approved before
+            </label>
+
+            {/* Search Engine Listing */}
+            <SeoSettings
+              title={title}
+              content={content}
+              seoTitle={seoTitle}
+              seoDescription={seoDescription}
+              onChange={(value) => {
+                setSeoTitle(value.seoTitle);
+                setSeoDescription(value.seoDescription);
+              }}
+            />
+
+            {/* Publish State */}
+            <PublishSettings
+              published={published}
+              scheduledAt={scheduledAt}
+              onChange={(value) => {
+                setPublished(value.published);
+                setScheduledAt(value.scheduledAt);
+              }}
+            />
+
             {/* Submit Button */}
             <div className="flex gap-4">
               <button
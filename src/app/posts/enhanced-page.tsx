@@ -187,7 +187,7 @@ export default function PostsPage() {
   
   // Fetch posts with filters and pagination
   const { 
-    data: posts, 
+    data: postPage, 
     isLoading: postsLoading,
     error: postsError,
     refetch: refetchPosts
@@ -196,10 +196,10 @@ export default function PostsPage() {
     categoryId: selectedCategoryId || undefined,
     published: showPublishedOnly || undefined,
     limit: postsPerPage,
-    offset: (currentPage - 1) * postsPerPage,
   }, {
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
+  const posts = postPage?.items;
 
   // Fetch categories for filter
   const { data: categories = [], isLoading: categoriesLoading } = api.category.getAll.useQuery(
@@ -0,0 +1,347 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { SignedIn, SignedOut, RedirectToSignIn } from '@clerk/nextjs';
+import { Navbar } from "@/components/Navbar";
+import { api } from "@/trpc/react";
+import { Bookmark, Check, Circle, FolderPlus, Loader2, Pencil, Trash2, X } from "lucide-react";
+import { Alert, Button, EmptyState, Input } from "@/components/ui";
+import { cn, displayName, formatRelativeTime, getErrorMessage } from "@/lib/utils";
+import type { BookmarkStatus } from "@/lib/validations";
+import type { BookmarkedPost, ReadingListSummary } from "@/types";
+
+const PAGE_SIZE = 20;
+
+const STATUSES: { id: BookmarkStatus; label: string }[] = [
+  { id: "all", label: "All" },
+  { id: "unread", label: "Unread" },
+  { id: "read", label: "Read" },
+];
+
+// Which bookmarks are shown: every one (undefined), those not in a list (null), or one list's
+type ListSelection = number | null | undefined;
+
+function ListButton({ active, label, count, onClick }: { active: boolean; label: string; count?: number; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        "w-full flex items-center justify-between gap-2 px-3 py-2 rounded-md text-sm text-left transition-colors",
+        active ? "bg-blue-50 text-blue-700 font-medium" : "text-gray-700 hover:bg-gray-100"
+      )}
+    >
+      <span className="truncate">{label}</span>
+      {count !== undefined && <span className="text-xs text-gray-500">{count}</span>}
+    </button>
+  );
+}
+
+/** The user's reading lists, with a form to start a new one and rename/delete for the selected one. */
+function ReadingListsSidebar({ selected, onSelect }: { selected: ListSelection; onSelect: (list: ListSelection) => void }) {
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<ReadingListSummary | null>(null);
+
+  const utils = api.useUtils();
+  const { data: lists = [] } = api.bookmark.lists.useQuery();
+
+  const onChanged = () => utils.bookmark.lists.invalidate();
+
+  const createList = api.bookmark.createList.useMutation({
+    onSuccess: async (list) => {
+      setNewName("");
+      onSelect(list.id);
+      await onChanged();
+    },
+  });
+  const renameList = api.bookmark.renameList.useMutation({
+    onSuccess: async () => {
+      setRenaming(null);
+      await onChanged();
+    },
+  });
+  const deleteList = api.bookmark.deleteList.useMutation({
+    onSuccess: async () => {
+      onSelect(undefined);
+      await Promise.all([onChanged(), utils.bookmark.list.invalidate()]);
+    },
+  });
+
+  const error = createList.error ?? renameList.error ?? deleteList.error;
+
+  // A failure shows in the error alert below
+  const handleDelete = (list: ReadingListSummary) => {
+    if (!confirm(`Delete "${list.name}"? Its posts stay saved, just not in a list.`)) return;
+    deleteList.mutate(list.id);
+  };
+
+  return (
+    <aside className="bg-white rounded-lg shadow-sm border p-4 space-y-4">
+      <div className="space-y-1">
+        <ListButton active={selected === undefined} label="All saved" onClick={() => onSelect(undefined)} />
+        <ListButton active={selected === null} label="Not in a list" onClick={() => onSelect(null)} />
+      </div>
+
+      {lists.length > 0 && (
+        <div className="border-t pt-4 space-y-1">
+          {lists.map((list) =>
+            renaming?.id === list.id ? (
+              <form
+                key={list.id}
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  renameList.mutate({ id: list.id, name: renaming.name });
+                }}
+                className="flex items-center gap-1"
+              >
+                <Input
+                  value={renaming.name}
+                  onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                  maxLength={100}
+                  autoFocus
+                  aria-label="List name"
+                />
+                <button type="submit" className="p-1.5 text-green-600 hover:bg-green-50 rounded-md" title="Save">
+                  <Check className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => setRenaming(null)} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-md" title="Cancel">
+                  <X className="w-4 h-4" />
+                </button>
+              </form>
+            ) : (
+              <div key={list.id} className="group flex items-center gap-1">
+                <ListButton
+                  active={selected === list.id}
+                  label={list.name}
+                  count={list.unreadCount > 0 ? list.unreadCount : list.bookmarkCount}
+                  onClick={() => onSelect(list.id)}
+                />
+                <button
+                  onClick={() => setRenaming(list)}
+                  className="p-1.5 text-gray-400 hover:text-blue-600 rounded-md opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  title="Rename list"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleDelete(list)}
+                  disabled={deleteList.isPending}
+                  className="p-1.5 text-gray-400 hover:text-red-600 rounded-md opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  title="Delete list"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (newName.trim()) createList.mutate({ name: newName });
+        }}
+        className="border-t pt-4 flex items-center gap-2"
+      >
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New list"
+          maxLength={100}
+          aria-label="New list name"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={createList.isPending || !newName.trim()} title="Create list">
+          <FolderPlus className="w-4 h-4" />
+        </Button>
+      </form>
+
+      {error && <Alert variant="error" description={getErrorMessage(error)} />}
+    </aside>
+  );
+}
+
+/** One saved post, with its read state and controls to file, mark or remove it. */
+function BookmarkRow({ item, lists }: { item: BookmarkedPost; lists: ReadingListSummary[] }) {
+  const { bookmark, post } = item;
+  const isRead = bookmark.readAt !== null;
+
+  const utils = api.useUtils();
+  const onChanged = () =>
+    Promise.all([
+      utils.bookmark.list.invalidate(),
+      utils.bookmark.lists.invalidate(),
+    ]);
+
+  const setRead = api.bookmark.setRead.useMutation({ onSuccess: onChanged });
+  const move = api.bookmark.add.useMutation({ onSuccess: onChanged });
+  const remove = api.bookmark.remove.useMutation({
+    onSuccess: () => Promise.all([onChanged(), utils.bookmark.ids.invalidate()]),
+  });
+
+  const isPending = setRead.isPending || move.isPending || remove.isPending;
+
+  return (
+    <li className={cn("p-4 flex items-start gap-4", isPending && "opacity-60")}>
+      <button
+        onClick={() => setRead.mutate({ postId: post.id, read: !isRead })}
+        disabled={isPending}
+        className={cn("mt-1 flex-shrink-0 transition-colors", isRead ? "text-green-600" : "text-blue-600 hover:text-blue-700")}
+        title={isRead ? "Mark as unread" : "Mark as read"}
+        aria-pressed={isRead}
+      >
+        {isRead ? <Check className="w-4 h-4" /> : <Circle className="w-3 h-3 m-0.5 fill-current" />}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <Link
+          href={`/posts/${post.slug}`}
+          className={cn("font-medium hover:text-blue-600 transition-colors", isRead ? "text-gray-600" : "text-gray-900")}
+        >
+          {post.title}
+        </Link>
+        {post.excerpt && <p className="text-sm text-gray-600 mt-1 line-clamp-2">{post.excerpt}</p>}
+        <p className="text-xs text-gray-500 mt-2">
+          {post.author && (
+            <>
+              <Link href={`/authors/${post.author.username}`} className="hover:text-blue-600">
+                {displayName(post.author)}
+              </Link>
+              {" · "}
+            </>
+          )}
+          {post.readingTime ? `${post.readingTime} min read · ` : ""}
+          Saved {formatRelativeTime(bookmark.createdAt)}
+          {bookmark.readAt && ` · Read ${formatRelativeTime(bookmark.readAt)}`}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2 flex-shrink-0">
+        {lists.length > 0 && (
+          <select
+            value={bookmark.listId ?? ""}
+            onChange={(e) => move.mutate({ postId: post.id, listId: e.target.value ? Number(e.target.value) : null })}
+            disabled={isPending}
+            className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white"
+            aria-label="Reading list"
+          >
+            <option value="">No list</option>
+            {lists.map((list) => (
+              <option key={list.id} value={list.id}>{list.name}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => remove.mutate(post.id)}
+          disabled={isPending}
+          className="p-1.5 text-gray-400 hover:text-red-600 rounded-md transition-colors"
+          title="Remove from reading list"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export default function ReadingListPage() {
+  const [selectedList, setSelectedList] = useState<ListSelection>(undefined);
+  const [status, setStatus] = useState<BookmarkStatus>("all");
+
+  const { data: lists = [] } = api.bookmark.lists.useQuery();
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = api.bookmark.list.useInfiniteQuery(
+    { listId: selectedList, status, limit: PAGE_SIZE },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+
+  const items = data?.pages.flatMap((page) => page.items) ?? [];
+  const title =
+    selectedList === undefined
+      ? "All saved"
+      : selectedList === null
+        ? "Not in a list"
+        : lists.find((list) => list.id === selectedList)?.name ?? "Reading list";
+
+  return (
+    <>
+      <SignedOut>
+        <RedirectToSignIn />
+      </SignedOut>
+      <SignedIn>
+        <div className="min-h-screen bg-gray-50">
+          <Navbar />
+
+          <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold text-gray-900">Reading List</h1>
+              <p className="text-gray-700 mt-2">Posts you saved for later, sorted into your own lists</p>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-[16rem_1fr]">
+              <ReadingListsSidebar selected={selectedList} onSelect={setSelectedList} />
+
+              <section className="bg-white rounded-lg shadow-sm border">
+                <div className="p-4 border-b flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <h2 className="text-lg font-semibold text-gray-900 truncate">{title}</h2>
+                  <div role="tablist" className="inline-flex rounded-lg border bg-white p-1">
+                    {STATUSES.map((item) => (
+                      <button
+                        key={item.id}
+                        role="tab"
+                        aria-selected={status === item.id}
+                        onClick={() => setStatus(item.id)}
+                        className={cn(
+                          "px-3 py-1 rounded-md text-sm font-medium transition-colors",
+                          status === item.id ? "bg-blue-600 text-white" : "text-gray-700 hover:bg-gray-100"
+                        )}
+                      >
+                        {item.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-16">
+                    <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                  </div>
+                ) : items.length === 0 ? (
+                  <EmptyState
+                    icon={Bookmark}
+                    title={status === "all" ? "Nothing saved here yet" : `No ${status} posts here`}
+                    description="Use the bookmark button on any post to save it for later."
+                    action={
+                      <Link href="/posts" className="text-blue-600 hover:text-blue-700 font-medium">
+                        Browse posts
+                      </Link>
+                    }
+                  />
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {items.map((item) => (
+                      <BookmarkRow key={item.bookmark.id} item={item} lists={lists} />
+                    ))}
+                  </ul>
+                )}
+
+                {hasNextPage && (
+                  <div className="p-4 border-t text-center">
+                    <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </section>
+            </div>
+          </main>
+        </div>
+      </SignedIn>
+    </>
+  );
+}
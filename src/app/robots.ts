@@ -0,0 +1,14 @@
+import type { MetadataRoute } from "next";
+import { absoluteUrl } from "@/lib/site";
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      // Author-only pages
+      disallow: ["/dashboard", "/posts/*/edit"],
+    },
+    sitemap: absoluteUrl("/sitemap.xml"),
+  };
+}
@@ -0,0 +1,8 @@
+import { buildSitemap, sitemapResponse } from "@/server/sitemap";
+
+// Built per request (and cached at the CDN) so new posts show up without a redeploy
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return sitemapResponse(buildSitemap);
+}
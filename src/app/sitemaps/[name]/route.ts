@@ -0,0 +1,10 @@
+import { buildSitemapSection, sitemapResponse } from "@/server/sitemap";
+
+/**
+ * Files listed by the sitemap index once the site outgrows a single sitemap
+ * /sitemaps/pages.xml and /sitemaps/posts-1.xml, posts-2.xml, ...
+ */
+export async function GET(_req: Request, { params }: { params: Promise<{ name: string }> }) {
+  const { name } = await params;
+  return sitemapResponse(() => buildSitemapSection(name));
+}
@@ -0,0 +1,131 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { TRPCError } from "@trpc/server";
+import { ArrowLeft, Hash, Rss } from "lucide-react";
+import { FollowButton } from "@/components/FollowButton";
+import { Navbar } from "@/components/Navbar";
+import { PostFeed } from "@/components/PostFeed";
+import { scopedListingInput } from "@/lib/post-listing";
+import { SITE_NAME, absoluteUrl, tagPath } from "@/lib/site";
+import { HydrateClient, api } from "@/trpc/server";
+
+// Cached after the first request; post changes revalidate it sooner
+export const revalidate = 600;
+
+type TagPageProps = { params: Promise<{ slug: string }> };
+
+// Cached per request so generateMetadata and the page share one lookup; null for missing tags
+const getTag = cache(async (slug: string) => {
+  try {
+    return await api.tag.getBySlug({ slug, includePostCount: true });
+  } catch (error) {
+    if (error instanceof TRPCError && error.code === "NOT_FOUND") return null;
+    throw error;
+  }
+});
+
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const tag = await getTag(slug);
+
+  if (!tag) {
+    return { robots: { index: false, follow: false } };
+  }
+
+  const title = `#${tag.name}`;
+  const description = tag.description || `Posts tagged ${tag.name}`;
+  const url = absoluteUrl(tagPath(tag.slug));
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: url,
+      types: {
+        "application/rss+xml": `/feed/tag/${tag.slug}/rss.xml`,
+        "application/atom+xml": `/feed/tag/${tag.slug}/atom.xml`,
+      },
+    },
+    openGraph: { type: "website", url, title, description, siteName: SITE_NAME },
+  };
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const { slug } = await params;
+  const tag = await getTag(slug);
+
+  if (!tag) {
+    notFound();
+  }
+
+  const listingInput = scopedListingInput({ tagId: tag.id });
+  await api.post.getAll.prefetchInfinite(listingInput);
+
+  const postCount = "postCount" in tag && typeof tag.postCount === "number" ? tag.postCount : null;
+
+  return (
+    <HydrateClient>
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+
+        <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Back Button */}
+          <div className="mb-6">
+            <Link
+              href="/posts"
+              className="inline-flex items-center text-blue-600 hover:text-blue-700 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              All Posts
+            </Link>
+          </div>
+
+          {/* Header */}
+          <header
+            className="bg-white rounded-lg shadow-sm border border-l-4 p-6 mb-8"
+            style={tag.color ? { borderLeftColor: tag.color } : undefined}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
+                  <Hash className="w-7 h-7 text-gray-400" />
+                  {tag.name}
+                </h1>
+                {tag.description && (
+                  <p className="text-gray-700 mt-2">{tag.description}</p>
+                )}
+                {postCount !== null && (
+                  <p className="text-sm text-gray-600 mt-2">
+                    {postCount} {postCount === 1 ? "post" : "posts"}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-4">
+                <a
+                  href={`/feed/tag/${tag.slug}/rss.xml`}
+                  className="flex items-center gap-1 text-sm text-gray-600 hover:text-orange-600 transition-colors"
+                  title={`RSS feed for #${tag.name}`}
+                >
+                  <Rss className="w-4 h-4" />
+                  RSS
+                </a>
+                <FollowButton target={{ tagId: tag.id }} />
+              </div>
+            </div>
+          </header>
+
+          <PostFeed
+            input={listingInput}
+            empty={
+              <div className="text-center py-12">
+                <p className="text-gray-700 text-lg">No posts with this tag yet.</p>
+              </div>
+            }
+          />
+        </main>
+      </div>
+    </HydrateClient>
+  );
+}
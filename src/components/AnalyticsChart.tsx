@@ -0,0 +1,64 @@
+"use client";
+
+import type { AnalyticsDay } from "@/types";
+
+type Metric = Exclude<keyof AnalyticsDay, "day">;
+
+interface AnalyticsChartProps {
+  series: AnalyticsDay[];
+  metric: Metric;
+  color?: string;
+}
+
+const CHART_HEIGHT = 160;
+
+/**
+ * Bar chart of one metric per day, for the analytics dashboard
+ * Plain SVG scaled to its container; hover a bar for the exact value
+ *
+ * @param series - Days in order, as returned by analytics.getTimeSeries
+ * @param metric - Which total to plot
+ * @param color - Bar fill colour
+ */
+export function AnalyticsChart({ series, metric, color = "#2563eb" }: AnalyticsChartProps) {
+  const max = Math.max(1, ...series.map((day) => day[metric]));
+  const barWidth = 100 / Math.max(1, series.length);
+  const first = series[0];
+  const last = series[series.length - 1];
+
+  return (
+    <div>
+      <div className="text-xs text-gray-500 mb-1">{max.toLocaleString()}</div>
+      <svg
+        viewBox={`0 0 100 ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-40 border-b border-gray-200"
+        role="img"
+        aria-label={`${metric} per day`}
+      >
+        {series.map((day, index) => {
+          const height = (day[metric] / max) * CHART_HEIGHT;
+          return (
+            <rect
+              key={day.day}
+              x={index * barWidth + barWidth * 0.1}
+              y={CHART_HEIGHT - height}
+              width={barWidth * 0.8}
+              height={height}
+              fill={color}
+              className="opacity-80 hover:opacity-100"
+            >
+              <title>{`${day.day}: ${day[metric].toLocaleString()} ${metric}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      {first && last && (
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{first.day}</span>
+          <span>{last.day}</span>
+        </div>
+      )}
+    </div>
+  );
+}
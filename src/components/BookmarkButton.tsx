@@ -0,0 +1,68 @@
+"use client";
+
+import { SignedIn } from "@clerk/nextjs";
+import { Bookmark, BookmarkCheck } from "lucide-react";
+import { api } from "@/trpc/react";
+import { cn } from "@/lib/utils";
+
+interface BookmarkButtonProps {
+  postId: number;
+  className?: string;
+}
+
+// Only rendered for signed-in users; every button on a page shares the one bookmark.ids query
+function BookmarkToggle({ postId, className }: BookmarkButtonProps) {
+  const utils = api.useUtils();
+  const { data: bookmarkedIds, isLoading } = api.bookmark.ids.useQuery();
+  const bookmarked = bookmarkedIds?.includes(postId) ?? false;
+
+  // Flip the icon straight away and put it back if the server refuses
+  const mutationOptions = {
+    onMutate: async () => {
+      await utils.bookmark.ids.cancel();
+      const previous = utils.bookmark.ids.getData();
+      utils.bookmark.ids.setData(undefined, (ids = []) =>
+        bookmarked ? ids.filter((id) => id !== postId) : [...ids, postId]);
+      return { previous };
+    },
+    onError: (_error: unknown, _input: unknown, context?: { previous?: number[] }) => {
+      utils.bookmark.ids.setData(undefined, context?.previous);
+    },
+    onSettled: () =>
+      Promise.all([
+        utils.bookmark.ids.invalidate(),
+        utils.bookmark.list.invalidate(),
+        utils.bookmark.lists.invalidate(),
+      ]),
+  };
+
+  const add = api.bookmark.add.useMutation(mutationOptions);
+  const remove = api.bookmark.remove.useMutation(mutationOptions);
+
+  return (
+    <button
+      type="button"
+      onClick={() => (bookmarked ? remove.mutate(postId) : add.mutate({ postId }))}
+      disabled={isLoading}
+      aria-pressed={bookmarked}
+      title={bookmarked ? "Remove from reading list" : "Save to reading list"}
+      className={cn(
+        "p-1.5 rounded-md transition-colors disabled:opacity-50",
+        bookmarked ? "text-blue-600 hover:bg-blue-50" : "text-gray-500 hover:text-blue-600 hover:bg-gray-100",
+        className
+      )}
+    >
+      {bookmarked ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+      <span className="sr-only">{bookmarked ? "Remove bookmark" : "Bookmark"}</span>
+    </button>
+  );
+}
+
+/** Save a post to, or remove it from, the reading list; renders nothing for signed-out visitors. */
+export function BookmarkButton(props: BookmarkButtonProps) {
+  return (
+    <SignedIn>
+      <BookmarkToggle {...props} />
+    </SignedIn>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useMemo, useState, type DragEvent } from "react";
+import { ChevronDown, ChevronRight, Edit2, GripVertical, Loader2, Trash2 } from "lucide-react";
+import { api } from "@/trpc/react";
+import { cn, getErrorMessage } from "@/lib/utils";
+import { Alert } from "@/components/ui";
+import type { CategoryWithHierarchy } from "@/lib/schema";
+
+type DropPosition = "before" | "inside" | "after";
+
+interface DropTarget {
+  id: number;
+  position: DropPosition;
+}
+
+interface TreeEntry {
+  node: CategoryWithHierarchy;
+  siblings: CategoryWithHierarchy[];
+}
+
+/** Every category by id, along with the list it sits in. */
+function indexTree(nodes: CategoryWithHierarchy[], entries = new Map<number, TreeEntry>()) {
+  for (const node of nodes) {
+    entries.set(node.id, { node, siblings: nodes });
+    indexTree(node.children, entries);
+  }
+  return entries;
+}
+
+/** Ids of a category and everything below it - places it can't be dropped. */
+export function subtreeIds(node: CategoryWithHierarchy, ids = new Set<number>()) {
+  ids.add(node.id);
+  for (const child of node.children) subtreeIds(child, ids);
+  return ids;
+}
+
+// Top and bottom quarter of a row drop beside it, the middle drops into it
+function dropPositionAt(event: DragEvent<HTMLElement>): DropPosition {
+  const rect = event.currentTarget.getBoundingClientRect();
+  const offset = (event.clientY - rect.top) / rect.height;
+  if (offset < 0.25) return "before";
+  if (offset > 0.75) return "after";
+  return "inside";
+}
+
+interface CategoryTreeEditorProps {
+  tree: CategoryWithHierarchy[];
+  canManage: boolean;
+  onEdit: (category: CategoryWithHierarchy) => void;
+  onDelete: (category: CategoryWithHierarchy) => void;
+  deletingId?: number | null;
+}
+
+/**
+ * Category hierarchy with drag-and-drop nesting and reordering
+ * Drop on the middle of a category to nest inside it, near its top or bottom edge to place beside it.
+ * Dropping onto the dragged category's own subcategories is refused here and by the server.
+ */
+export function CategoryTreeEditor({ tree, canManage, onEdit, onDelete, deletingId }: CategoryTreeEditorProps) {
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+
+  const utils = api.useUtils();
+  const move = api.category.move.useMutation({
+    onSettled: () => utils.category.invalidate(),
+  });
+
+  const entries = useMemo(() => indexTree(tree), [tree]);
+  const dragging = draggingId !== null ? entries.get(draggingId) : undefined;
+  const blockedIds = useMemo(() => (dragging ? subtreeIds(dragging.node) : new Set<number>()), [dragging]);
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLElement>, id: number) => {
+    if (!dragging || blockedIds.has(id)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const position = dropPositionAt(event);
+    if (dropTarget?.id !== id || dropTarget.position !== position) {
+      setDropTarget({ id, position });
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const target = dropTarget ? entries.get(dropTarget.id) : undefined;
+
+    if (dragging && dropTarget && target && !blockedIds.has(target.node.id)) {
+      if (dropTarget.position === "inside") {
+        move.mutate({
+          id: dragging.node.id,
+          parentId: target.node.id,
+          index: target.node.children.filter((child) => child.id !== dragging.node.id).length,
+        });
+        setCollapsed((current) => {
+          const next = new Set(current);
+          next.delete(target.node.id);
+          return next;
+        });
+      } else {
+        // Index among the siblings once the dragged category has left them
+        const siblings = target.siblings.filter((sibling) => sibling.id !== dragging.node.id);
+        const targetIndex = siblings.findIndex((sibling) => sibling.id === target.node.id);
+        move.mutate({
+          id: dragging.node.id,
+          parentId: target.node.parentId,
+          index: targetIndex + (dropTarget.position === "after" ? 1 : 0),
+        });
+      }
+    }
+
+    endDrag();
+  };
+
+  // Dropping on the empty area below the tree moves the category to the end of the top level
+  const handleRootDrop = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    if (dragging) {
+      move.mutate({
+        id: dragging.node.id,
+        parentId: null,
+        index: tree.filter((node) => node.id !== dragging.node.id).length,
+      });
+    }
+    endDrag();
+  };
+
+  const toggleCollapsed = (id: number) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const renderNodes = (nodes: CategoryWithHierarchy[], depth: number) => (
+    <ul>
+      {nodes.map((node) => {
+        const isCollapsed = collapsed.has(node.id);
+        const target = dropTarget?.id === node.id ? dropTarget.position : null;
+
+        return (
+          <li key={node.id}>
+            <div
+              draggable={canManage}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                event.dataTransfer.setData("text/plain", String(node.id));
+                setDraggingId(node.id);
+              }}
+              onDragEnd={endDrag}
+              onDragOver={(event) => handleDragOver(event, node.id)}
+              onDrop={handleDrop}
+              style={{ paddingLeft: `${depth * 1.5 + 0.75}rem` }}
+              className={cn(
+                "flex items-start gap-2 pr-4 py-3 border-y-2 border-transparent",
+                draggingId === node.id && "opacity-50",
+                target === "before" && "border-t-blue-500",
+                target === "after" && "border-b-blue-500",
+                target === "inside" && "bg-blue-50"
+              )}
+            >
+              {canManage && (
+                <GripVertical className="w-4 h-4 mt-1 text-gray-400 cursor-grab flex-shrink-0" aria-hidden />
+              )}
+
+              <button
+                onClick={() => toggleCollapsed(node.id)}
+                disabled={node.children.length === 0}
+                className="mt-0.5 text-gray-500 hover:text-gray-700 disabled:invisible"
+                aria-label={isCollapsed ? `Expand ${node.name}` : `Collapse ${node.name}`}
+              >
+                {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </button>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  {node.color && (
+                    <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: node.color }} />
+                  )}
+                  {node.icon && <span aria-hidden>{node.icon}</span>}
+                  <h3 className="font-semibold text-gray-900 truncate">{node.name}</h3>
+                  <span className="text-xs text-gray-500">
+                    {node.postCount} {node.postCount === 1 ? "post" : "posts"}
+                  </span>
+                </div>
+                {node.description && (
+                  <p className="text-sm text-gray-600 mt-1">{node.description}</p>
+                )}
+              </div>
+
+              {canManage && (
+                <div className="flex gap-1 ml-4">
+                  <button
+                    onClick={() => onEdit(node)}
+                    className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Edit category"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(node)}
+                    disabled={deletingId === node.id}
+                    className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                    title="Delete category"
+                  >
+                    {deletingId === node.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="w-4 h-4" />
+                    )}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {node.children.length > 0 && !isCollapsed && renderNodes(node.children, depth + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <div>
+      {move.error && (
+        <Alert variant="error" className="m-4" title="Couldn't move category" description={getErrorMessage(move.error)} />
+      )}
+
+      {renderNodes(tree, 0)}
+
+      {canManage && (
+        <div
+          onDragOver={(event) => {
+            if (dragging) event.preventDefault();
+          }}
+          onDrop={handleRootDrop}
+          className={cn(
+            "p-4 text-center text-sm text-gray-500 transition-colors",
+            dragging ? "bg-gray-50" : "invisible"
+          )}
+        >
+          Drop here to move to the top level
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+/**
+ * Comment section for a post
+ *
+ * Renders the comment form and nested comment threads
+ * Features:
+ * - Replies nested under their parent comment
+ * - Inline edit and soft delete for the comment author (post owners and editors can delete too)
+ * - Like toggling with per-user state
+ *
+ * @param postId - Post whose comments are shown
+ * @param postAuthorId - Author of the post, used for delete permissions
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { MessageSquare, Heart, Reply, Edit2, Trash2, Loader2 } from "lucide-react";
+import { useUser } from "@clerk/nextjs";
+import { api } from "@/trpc/react";
+import { Alert, Avatar, Button, Textarea } from "@/components/ui";
+import { cn, formatRelativeTime, getErrorMessage } from "@/lib/utils";
+import { canManagePost } from "@/lib/permissions";
+import type { CommentThread as CommentThreadType } from "@/types";
+
+interface CommentSectionProps {
+  postId: number;
+  postAuthorId?: number | null;
+}
+
+interface CommentItemProps {
+  comment: CommentThreadType;
+  postId: number;
+  postAuthorId?: number | null;
+  likedIds: Set<number>;
+  depth: number;
+}
+
+// Deeper replies stop indenting so long threads stay readable on small screens
+const MAX_INDENT_DEPTH = 4;
+
+// Shared form for new comments, replies and edits
+function CommentForm({
+  initialValue = "",
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: {
+  initialValue?: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (content: string) => Promise<unknown>;
+  onCancel?: () => void;
+}) {
+  const [content, setContent] = useState(initialValue);
+  const [error, setError] = useState<string | null>(null);
+
+  // The text is kept when saving fails so it can be fixed and sent again
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+    setError(null);
+    try {
+      await onSubmit(content.trim());
+      setContent("");
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {error && <Alert variant="error" description={error} />}
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={3}
+        maxLength={5000}
+        placeholder="Share your thoughts..."
+        className="text-gray-900 placeholder-gray-500"
+      />
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" loading={isSubmitting} disabled={!content.trim()}>
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" size="sm" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+function CommentItem({ comment, postId, postAuthorId, likedIds, depth }: CommentItemProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const { isSignedIn } = useUser();
+  const { data: me } = api.user.me.useQuery(undefined, { enabled: !!isSignedIn });
+
+  const invalidate = () =>
+    Promise.all([
+      utils.comment.list.invalidate({ postId }),
+      utils.comment.getMyLikes.invalidate({ postId }),
+    ]);
+
+  const replyMutation = api.comment.reply.useMutation({
+    onSuccess: (reply) => {
+      setIsReplying(false);
+      if (reply?.isApproved) {
+        void invalidate();
+      } else {
+        setNotice("Your reply was submitted and will appear once approved.");
+      }
+    },
+  });
+  const updateMutation = api.comment.update.useMutation({
+    onSuccess: (updated) => {
+      setIsEditing(false);
+      if (updated?.isApproved) {
+        void invalidate();
+      } else {
+        setNotice("Your edit was submitted and will appear once approved.");
+      }
+    },
+  });
+  const deleteMutation = api.comment.delete.useMutation({ onSuccess: () => void invalidate() });
+  const likeMutation = api.comment.like.useMutation({ onSuccess: () => void invalidate() });
+
+  const isDeleted = comment.isDeleted;
+  const isOwn = !!me && comment.author?.id === me.id;
+  const canDelete = !isDeleted && (isOwn || canManagePost(me, { authorId: postAuthorId }));
+  const liked = likedIds.has(comment.id);
+
+  const authorName = comment.author
+    ? [comment.author.firstName, comment.author.lastName].filter(Boolean).join(" ") || comment.author.username
+    : "Deleted comment";
+
+  // Failures show through deleteMutation.error below
+  const handleDelete = () => {
+    if (!confirm("Delete this comment?")) return;
+    deleteMutation.mutate({ id: comment.id });
+  };
+
+  // Reply and edit errors show inside their forms
+  const error = deleteMutation.error ?? likeMutation.error;
+
+  return (
+    <li className={cn(depth > 0 && depth <= MAX_INDENT_DEPTH && "ml-6 pl-4 border-l border-gray-200")}>
+      <div className="py-4">
+        <div className="flex items-center gap-3 mb-2">
+          <Avatar src={comment.author?.avatar} size={32} />
+          <div className="text-sm">
+            <span className={cn("font-medium", isDeleted ? "text-gray-500 italic" : "text-gray-900")}>
+              {authorName}
+            </span>
+            <span className="text-gray-500 ml-2">{formatRelativeTime(comment.createdAt)}</span>
+            {!isDeleted && comment.updatedAt.getTime() !== comment.createdAt.getTime() && (
+              <span className="text-gray-400 ml-2">(edited)</span>
+            )}
+          </div>
+        </div>
+
+        {isEditing ? (
+          <CommentForm
+            initialValue={comment.content}
+            submitLabel="Save"
+            isSubmitting={updateMutation.isPending}
+            onSubmit={(content) => updateMutation.mutateAsync({ id: comment.id, content })}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <p className={cn("whitespace-pre-wrap", isDeleted ? "text-gray-500 italic" : "text-gray-800")}>
+            {comment.content}
+          </p>
+        )}
+
+        {!isDeleted && !isEditing && (
+          <div className="flex items-center gap-4 mt-2 text-sm">
+            <button
+              onClick={() => likeMutation.mutate({ id: comment.id })}
+              disabled={likeMutation.isPending}
+              className={cn(
+                "flex items-center gap-1 transition-colors disabled:opacity-50",
+                liked ? "text-red-600" : "text-gray-600 hover:text-red-600"
+              )}
+              aria-pressed={liked}
+            >
+              <Heart className={cn("w-4 h-4", liked && "fill-current")} />
+              {comment.likeCount}
+            </button>
+            <button
+              onClick={() => setIsReplying(!isReplying)}
+              className="flex items-center gap-1 text-gray-600 hover:text-blue-600 transition-colors"
+            >
+              <Reply className="w-4 h-4" />
+              Reply
+            </button>
+            {isOwn && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="flex items-center gap-1 text-gray-600 hover:text-blue-600 transition-colors"
+              >
+                <Edit2 className="w-4 h-4" />
+                Edit
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={handleDelete}
+                disabled={deleteMutation.isPending}
+                className="flex items-center gap-1 text-gray-600 hover:text-red-600 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && <p className="mt-2 text-sm text-red-600">{getErrorMessage(error)}</p>}
+        {notice && <p className="mt-2 text-sm text-gray-600">{notice}</p>}
+
+        {isReplying && (
+          <div className="mt-3">
+            <CommentForm
+              submitLabel="Reply"
+              isSubmitting={replyMutation.isPending}
+              onSubmit={(content) => replyMutation.mutateAsync({ parentId: comment.id, content })}
+              onCancel={() => setIsReplying(false)}
+            />
+          </div>
+        )}
+      </div>
+
+      {comment.replies.length > 0 && (
+        <ul>
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              postId={postId}
+              postAuthorId={postAuthorId}
+              likedIds={likedIds}
+              depth={depth + 1}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/** Count every comment in a set of threads, including nested replies. */
+const countComments = (threads: CommentThreadType[]): number =>
+  threads.reduce((total, comment) => total + 1 + countComments(comment.replies), 0);
+
+export function CommentSection({ postId, postAuthorId }: CommentSectionProps) {
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const { data: threads = [], isLoading } = api.comment.list.useQuery({ postId });
+  const { isSignedIn } = useUser();
+  const { data: likedIds = [] } = api.comment.getMyLikes.useQuery({ postId }, { enabled: !!isSignedIn });
+
+  const createMutation = api.comment.create.useMutation({
+    onSuccess: (comment) => {
+      if (comment?.isApproved) {
+        setNotice(null);
+        void utils.comment.list.invalidate({ postId });
+      } else {
+        setNotice("Your comment was submitted and will appear once approved.");
+      }
+    },
+  });
+
+  const likedSet = new Set(likedIds);
+  const total = countComments(threads);
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm border mt-8">
+      <div className="p-6 border-b">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Comments {total > 0 && <span className="text-gray-500 font-normal">({total})</span>}
+        </h2>
+      </div>
+
+      <div className="p-6 border-b">
+        {notice && <Alert variant="success" className="mb-4" description={notice} />}
+        <CommentForm
+          submitLabel="Post Comment"
+          isSubmitting={createMutation.isPending}
+          onSubmit={(content) => createMutation.mutateAsync({ postId, content })}
+        />
+      </div>
+
+      <div className="px-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : threads.length > 0 ? (
+          <ul className="divide-y divide-gray-100">
+            {threads.map((comment) => (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                postId={postId}
+                postAuthorId={postAuthorId}
+                likedIds={likedSet}
+                depth={0}
+              />
+            ))}
+          </ul>
+        ) : (
+          <p className="py-8 text-center text-gray-600">No comments yet. Be the first to share your thoughts!</p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * Autosave UI for the post editor
+ *
+ * Shows the "resume draft" prompt, the conflict prompt when a newer draft was
+ * saved elsewhere, and a small status line with the autosave toggle.
+ *
+ * @param autosave - State and actions from useDraftAutosave
+ */
+
+"use client";
+
+import React from "react";
+import { CloudOff, Cloud, Loader2, AlertTriangle, History } from "lucide-react";
+import { Button } from "@/components/ui";
+import { formatDateTime, formatRelativeTime, getErrorMessage } from "@/lib/utils";
+import type { DraftAutosave } from "@/hooks/useDraftAutosave";
+
+interface DraftAutosaveStatusProps {
+  autosave: DraftAutosave;
+}
+
+export function DraftAutosavePrompts({ autosave }: DraftAutosaveStatusProps) {
+  const { pendingDraft, conflict, discardError } = autosave;
+
+  if (pendingDraft) {
+    return (
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-md border border-blue-200 bg-blue-50">
+        <div className="flex items-start gap-2 text-sm text-blue-900">
+          <History className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            You have an unsaved draft from {formatDateTime(pendingDraft.draft.timestamp)}
+            {pendingDraft.draft.title && <> &mdash; &quot;{pendingDraft.draft.title}&quot;</>}.
+            {discardError && (
+              <span className="block text-red-600">Couldn&apos;t discard it: {getErrorMessage(discardError)}</span>
+            )}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" size="sm" onClick={autosave.resumeDraft}>
+            Resume draft
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={autosave.discardDraft} loading={autosave.isDiscarding}>
+            Discard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (conflict) {
+    return (
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-md border border-yellow-200 bg-yellow-50">
+        <div className="flex items-start gap-2 text-sm text-yellow-900">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            A newer draft was saved {formatRelativeTime(conflict.updatedAt)} from another window or device.
+            Autosave is paused until you choose which version to keep.
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" size="sm" onClick={autosave.loadServerDraft}>
+            Load newer draft
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={() => void autosave.keepLocalDraft()}>
+            Keep mine
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
+
+export function DraftAutosaveStatus({ autosave }: DraftAutosaveStatusProps) {
+  const { status, lastSavedAt, autoSaveEnabled, setAutoSaveEnabled } = autosave;
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-gray-600">
+      {!autoSaveEnabled ? (
+        <span className="flex items-center gap-1">
+          <CloudOff className="w-4 h-4" />
+          Autosave off
+        </span>
+      ) : status === "saving" ? (
+        <span className="flex items-center gap-1">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Saving draft...
+        </span>
+      ) : status === "error" ? (
+        <span className="flex items-center gap-1 text-red-600">
+          <CloudOff className="w-4 h-4" />
+          Draft not saved
+        </span>
+      ) : lastSavedAt ? (
+        <span className="flex items-center gap-1" title={formatDateTime(lastSavedAt)}>
+          <Cloud className="w-4 h-4" />
+          Draft saved {formatRelativeTime(lastSavedAt)}
+        </span>
+      ) : null}
+
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={autoSaveEnabled}
+          onChange={(e) => setAutoSaveEnabled(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        Autosave
+      </label>
+    </div>
+  );
+}
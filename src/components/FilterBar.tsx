@@ -1,8 +1,10 @@
 "use client";
 
 import { useState } from "react";
-import { Search, Filter, X } from "lucide-react";
+import { Search, Filter, X, ArrowDown, ArrowUp } from "lucide-react";
 import { useFilterStore } from "@/stores/filterStore";
+import { fromDateParam, toDateParam } from "@/lib/filter-params";
+import type { PostSortField } from "@/lib/validations";
 
 interface Category {
   id: number;
@@ -10,24 +12,61 @@ interface Category {
   slug: string;
 }
 
+interface TagOption {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+const SORT_OPTIONS: { value: PostSortField; label: string }[] = [
+  { value: "createdAt", label: "Date created" },
+  { value: "updatedAt", label: "Last updated" },
+  { value: "title", label: "Title" },
+  { value: "viewCount", label: "Views" },
+  { value: "relevance", label: "Relevance" },
+];
+
 interface FilterBarProps {
   categories: Category[];
+  tags?: TagOption[];
 }
 
-export function FilterBar({ categories }: FilterBarProps) {
+export function FilterBar({ categories, tags = [] }: FilterBarProps) {
   const {
     searchQuery,
     selectedCategoryId,
+    selectedTagIds,
+    tagMatch,
     showPublishedOnly,
+    authorId,
+    dateRange,
+    sortBy,
+    sortOrder,
     setSearchQuery,
     setSelectedCategoryId,
+    addTagId,
+    removeTagId,
+    setTagMatch,
     setShowPublishedOnly,
+    setAuthorId,
+    setDateRange,
+    setSortBy,
+    setSortOrder,
     clearFilters,
+    getActiveFiltersCount,
   } = useFilterStore();
 
   const [showFilters, setShowFilters] = useState(false);
 
-  const hasActiveFilters = searchQuery || selectedCategoryId || showPublishedOnly;
+  const hasActiveFilters = getActiveFiltersCount() > 0;
+
+  const toggleTag = (id: number) => {
+    if (selectedTagIds.includes(id)) {
+      removeTagId(id);
+    } else {
+      addTagId(id);
+    }
+  };
 
   return (
     <div className="bg-white border-b">
@@ -45,6 +84,29 @@ export function FilterBar({ categories }: FilterBarProps) {
             />
           </div>
 
+          {/* Sort */}
+          <div className="flex items-center gap-1">
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as PostSortField)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label="Sort posts by"
+            >
+              {SORT_OPTIONS.filter((option) => option.value !== "relevance" || searchQuery || sortBy === "relevance").map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setSortOrder(sortOrder === "asc" ? "desc" : "asc")}
+              className="p-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 transition-colors"
+              title={sortOrder === "asc" ? "Ascending" : "Descending"}
+            >
+              {sortOrder === "asc" ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+            </button>
+          </div>
+
           {/* Filter Toggle */}
           <button
             onClick={() => setShowFilters(!showFilters)}
@@ -113,6 +175,92 @@ export function FilterBar({ categories }: FilterBarProps) {
                   </label>
                 </div>
               </div>
+
+              {/* Date Range */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Created between
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={toDateParam(dateRange.from)}
+                    max={toDateParam(dateRange.to) || undefined}
+                    onChange={(e) => setDateRange({ ...dateRange, from: fromDateParam(e.target.value) })}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    aria-label="From date"
+                  />
+                  <span className="text-sm text-gray-700">and</span>
+                  <input
+                    type="date"
+                    value={toDateParam(dateRange.to)}
+                    min={toDateParam(dateRange.from) || undefined}
+                    onChange={(e) => setDateRange({ ...dateRange, to: fromDateParam(e.target.value, true) })}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    aria-label="To date"
+                  />
+                </div>
+              </div>
+
+              {/* Author Filter - set from author links; only clearing is offered here */}
+              {authorId && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Author
+                  </label>
+                  <button
+                    onClick={() => setAuthorId(null)}
+                    className="inline-flex items-center gap-1 bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm hover:bg-blue-200 transition-colors"
+                  >
+                    One author only
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+
+              {/* Tag Filter */}
+              {tags.length > 0 && (
+                <div className="md:col-span-2">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Tags
+                    </label>
+                    {selectedTagIds.length > 1 && (
+                      <div className="flex items-center gap-1 text-sm">
+                        <span className="text-gray-700">Match</span>
+                        {(['any', 'all'] as const).map((match) => (
+                          <button
+                            key={match}
+                            onClick={() => setTagMatch(match)}
+                            className={`px-2 py-0.5 rounded-md transition-colors ${
+                              tagMatch === match
+                                ? "bg-blue-600 text-white"
+                                : "text-gray-700 hover:bg-gray-200"
+                            }`}
+                          >
+                            {match}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {tags.map((tag) => (
+                      <button
+                        key={tag.id}
+                        onClick={() => toggleTag(tag.id)}
+                        className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                          selectedTagIds.includes(tag.id)
+                            ? "bg-blue-500 text-white"
+                            : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+                        }`}
+                      >
+                        #{tag.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         )}
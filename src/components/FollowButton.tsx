@@ -0,0 +1,65 @@
+"use client";
+
+import { SignedIn } from "@clerk/nextjs";
+import { Loader2, UserCheck, UserPlus } from "lucide-react";
+import { api } from "@/trpc/react";
+import { cn } from "@/lib/utils";
+import type { FollowTarget } from "@/lib/validations";
+
+interface FollowButtonProps {
+  target: FollowTarget;
+  className?: string;
+}
+
+// Only rendered for signed-in users; anonymous visitors have nothing to follow with
+function FollowToggle({ target, className }: FollowButtonProps) {
+  const utils = api.useUtils();
+  const { data: me } = api.user.me.useQuery();
+  const { data: isFollowing, isLoading } = api.social.isFollowing.useQuery(target);
+
+  const onSuccess = async (result: { following: boolean }) => {
+    utils.social.isFollowing.setData(target, result.following);
+    // The Following feed now has different posts
+    await utils.post.getAll.invalidate({ following: true });
+  };
+
+  const follow = api.social.follow.useMutation({ onSuccess });
+  const unfollow = api.social.unfollow.useMutation({ onSuccess });
+
+  // No following yourself
+  if (target.authorId !== undefined && me?.id === target.authorId) return null;
+
+  const isPending = follow.isPending || unfollow.isPending;
+
+  return (
+    <button
+      onClick={() => (isFollowing ? unfollow : follow).mutate(target)}
+      disabled={isLoading || isPending}
+      className={cn(
+        "inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50",
+        isFollowing
+          ? "border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+          : "bg-blue-600 hover:bg-blue-700 text-white",
+        className
+      )}
+    >
+      {isPending ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : isFollowing ? (
+        <UserCheck className="w-4 h-4" />
+      ) : (
+        <UserPlus className="w-4 h-4" />
+      )}
+      {isFollowing ? "Following" : "Follow"}
+    </button>
+  );
+}
+
+/** Follow / unfollow an author or a tag; renders nothing for signed-out visitors. */
+export function FollowButton(props: FollowButtonProps) {
+  return (
+    <SignedIn>
+      <FollowToggle {...props} />
+    </SignedIn>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Navbar } from "@/components/Navbar";
+import { PostFeed } from "@/components/PostFeed";
+import { LATEST_POSTS_INPUT, scopedListingInput } from "@/lib/post-listing";
+import { cn } from "@/lib/utils";
+
+const TABS = [
+  { id: "latest", label: "Latest" },
+  { id: "following", label: "Following" },
+] as const;
+
+type Tab = typeof TABS[number]["id"];
+
+const FOLLOWING_INPUT = scopedListingInput({ following: true });
+
+/**
+ * Home page for signed-in users: the latest posts, or those from followed authors and tags
+ * The tab lives in the URL (?tab=following) so it survives reloads
+ */
+export function HomeFeed() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const tab: Tab = searchParams.get("tab") === "following" ? "following" : "latest";
+
+  const selectTab = (next: Tab) => {
+    router.replace(next === "latest" ? pathname : `${pathname}?tab=${next}`, { scroll: false });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Your Feed</h1>
+            <p className="text-gray-700 mt-2">Fresh posts from the community and the people you follow</p>
+          </div>
+
+          <div role="tablist" className="inline-flex rounded-lg border bg-white p-1">
+            {TABS.map((item) => (
+              <button
+                key={item.id}
+                role="tab"
+                aria-selected={tab === item.id}
+                onClick={() => selectTab(item.id)}
+                className={cn(
+                  "px-4 py-1.5 rounded-md text-sm font-medium transition-colors",
+                  tab === item.id ? "bg-blue-600 text-white" : "text-gray-700 hover:bg-gray-100"
+                )}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {tab === "latest" ? (
+          <PostFeed
+            input={LATEST_POSTS_INPUT}
+            empty={
+              <div className="text-center py-12">
+                <p className="text-gray-700 text-lg">No posts available yet.</p>
+              </div>
+            }
+          />
+        ) : (
+          <PostFeed
+            input={FOLLOWING_INPUT}
+            empty={
+              <div className="text-center py-12">
+                <p className="text-gray-700 text-lg">Nothing here yet.</p>
+                <p className="text-gray-600 mt-2">
+                  Follow authors and tags from their pages to see their posts here.
+                </p>
+                <Link href="/posts" className="inline-block mt-4 text-blue-600 hover:text-blue-700 font-medium">
+                  Find something to follow
+                </Link>
+              </div>
+            }
+          />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@
  * - Authenticated vs unauthenticated states
  * - Sticky positioning for better UX
  * - Quick access to create post
+ * - Notification bell for signed-in users
  * 
  * @param className - Optional CSS classes for styling
  */
@@ -16,9 +17,10 @@
 import React, { useState } from "react";
 import Link from "next/link";
 import { UserButton, SignedIn, SignedOut, SignInButton } from '@clerk/nextjs';
-import { PlusCircle, Home, Folder, BookOpen, Menu, X, Search } from "lucide-react";
+import { PlusCircle, Home, Folder, BookOpen, Bookmark, Menu, X, Search, Newspaper } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui";
+import { NotificationBell } from "@/components/NotificationBell";
 
 interface NavbarProps {
   className?: string;
@@ -33,6 +35,12 @@ interface NavItem {
 
 // Navigation items configuration - easy to add/remove items
 const navItems: NavItem[] = [
+  {
+    href: "/",
+    label: "Feed",
+    icon: Newspaper,
+    requiresAuth: true
+  },
   {
     href: "/dashboard",
     label: "Dashboard",
@@ -50,6 +58,12 @@ const navItems: NavItem[] = [
     label: "Categories", 
     icon: Folder,
     requiresAuth: true
+  },
+  {
+    href: "/reading-list",
+    label: "Reading List",
+    icon: Bookmark,
+    requiresAuth: true
   }
 ];
 
@@ -126,6 +140,11 @@ export function Navbar({ className }: NavbarProps) {
               </Link>
             </SignedIn>
 
+            {/* Notifications */}
+            <SignedIn>
+              <NotificationBell />
+            </SignedIn>
+
             {/* User Menu */}
             <SignedIn>
               <UserButton 
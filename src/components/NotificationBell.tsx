@@ -0,0 +1,159 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import Link from "next/link";
+import { Bell, Loader2 } from "lucide-react";
+import { api } from "@/trpc/react";
+import { useClickOutside } from "@/hooks";
+import { authorPath, postPath } from "@/lib/site";
+import { cn, displayName, formatRelativeTime } from "@/lib/utils";
+import type { NotificationItem } from "@/types";
+
+// How many notifications the dropdown shows
+const DROPDOWN_LIMIT = 10;
+
+// The badge checks for new notifications this often while the page is open
+const UNREAD_POLL_MS = 60 * 1000;
+
+/** One line describing a notification, and where clicking it goes. */
+function describe(notification: NotificationItem): { text: string; href: string | null } {
+  const actor = notification.actor ? displayName(notification.actor) : "Someone";
+  const post = notification.post;
+
+  switch (notification.type) {
+    case "comment":
+      return { text: `${actor} commented on "${post?.title ?? "your post"}"`, href: post && postPath(post.slug) };
+    case "reply":
+      return { text: `${actor} replied to your comment on "${post?.title ?? "a post"}"`, href: post && postPath(post.slug) };
+    case "follow":
+      return { text: `${actor} started following you`, href: notification.actor && authorPath(notification.actor.username) };
+    case "post_published":
+      return { text: `${actor} published "${post?.title ?? "a new post"}"`, href: post && postPath(post.slug) };
+  }
+}
+
+/**
+ * Bell in the navbar with the unread count, opening a dropdown of recent notifications
+ * Opening a notification marks it read; the dropdown can also mark everything read
+ */
+export function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const utils = api.useUtils();
+  const { data: unreadCount = 0 } = api.notification.unreadCount.useQuery(undefined, {
+    refetchInterval: UNREAD_POLL_MS,
+  });
+  const { data, isLoading } = api.notification.list.useQuery(
+    { limit: DROPDOWN_LIMIT },
+    { enabled: isOpen }
+  );
+
+  const onRead = () =>
+    Promise.all([
+      utils.notification.unreadCount.invalidate(),
+      utils.notification.list.invalidate(),
+    ]);
+
+  const markRead = api.notification.markRead.useMutation({ onSuccess: onRead });
+  const markAllRead = api.notification.markAllRead.useMutation({ onSuccess: onRead });
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(containerRef, close);
+
+  const items = data?.items ?? [];
+
+  const handleOpen = (notification: NotificationItem) => {
+    if (!notification.readAt) markRead.mutate({ ids: [notification.id] });
+    close();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        aria-expanded={isOpen}
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold leading-[1.125rem] text-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-lg border z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <h2 className="text-sm font-semibold text-gray-900">Notifications</h2>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markAllRead.mutate()}
+                disabled={markAllRead.isPending}
+                className="text-xs text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-gray-600">You&apos;re all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {items.map((notification) => {
+                const { text, href } = describe(notification);
+                const content = (
+                  <>
+                    <span
+                      className={cn(
+                        "mt-1.5 w-2 h-2 rounded-full flex-shrink-0",
+                        notification.readAt ? "bg-transparent" : "bg-blue-600"
+                      )}
+                      aria-hidden="true"
+                    />
+                    <span className="min-w-0">
+                      <span className={cn("block text-sm", notification.readAt ? "text-gray-600" : "text-gray-900")}>
+                        {text}
+                      </span>
+                      <span className="block text-xs text-gray-500 mt-0.5">
+                        {formatRelativeTime(notification.createdAt)}
+                      </span>
+                    </span>
+                  </>
+                );
+
+                return (
+                  <li key={notification.id}>
+                    {href ? (
+                      <Link
+                        href={href}
+                        onClick={() => handleOpen(notification)}
+                        className="flex items-start gap-3 px-4 py-3 hover:bg-gray-50 transition-colors"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <button
+                        onClick={() => handleOpen(notification)}
+                        className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-gray-50 transition-colors"
+                      >
+                        {content}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
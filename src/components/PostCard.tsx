@@ -1,9 +1,10 @@
 // Enhanced PostCard with professional design and better UX
 import React from 'react';
 import Link from "next/link";
-import { formatDate, extractPreview, calculatePostStats } from "@/lib/utils";
-import { Calendar, Tag, Clock, FileText, Edit, Eye, EyeOff } from "lucide-react";
+import { formatDate, formatDateTime, extractPreview, calculatePostStats, escapeHtml, highlightSearchTerm, displayName } from "@/lib/utils";
+import { Calendar, Tag, Hash, Clock, FileText, Edit, Eye, EyeOff, Heart, User } from "lucide-react";
 import { Card, Button } from "@/components/ui";
+import { BookmarkButton } from "@/components/BookmarkButton";
 import type { PostWithCategories } from "@/types";
 
 interface PostCardProps {
@@ -11,10 +12,12 @@ interface PostCardProps {
   showActions?: boolean;
   variant?: 'default' | 'compact' | 'featured';
   className?: string;
+  searchTerm?: string; // Highlights the term when the post has no search match details
 }
 
-export function PostCard({ post, showActions = false, variant = 'default', className }: PostCardProps) {
+export function PostCard({ post, showActions = false, variant = 'default', className, searchTerm }: PostCardProps) {
   const stats = calculatePostStats(post.content || '');
+  const reactionTotal = post.reactions ? Object.values(post.reactions).reduce((total, n) => total + n, 0) : 0;
   
   const cardVariants = {
     default: 'hover:shadow-lg transition-all duration-200',
@@ -28,6 +31,16 @@ export function PostCard({ post, showActions = false, variant = 'default', class
         {/* Post Header */}
         <div className="flex items-start justify-between mb-4">
           <div className="flex items-center gap-4 text-sm text-gray-700 flex-wrap">
+            {post.author && (
+              <Link
+                href={`/authors/${post.author.username}`}
+                className="flex items-center gap-1 hover:text-blue-600 transition-colors"
+              >
+                <User className="w-4 h-4" />
+                <span>{displayName(post.author)}</span>
+              </Link>
+            )}
+
             <div className="flex items-center gap-1">
               <Calendar className="w-4 h-4" />
               <time dateTime={post.createdAt.toISOString()}>
@@ -44,20 +57,36 @@ export function PostCard({ post, showActions = false, variant = 'default', class
               <FileText className="w-4 h-4" />
               <span>{stats.wordCount} words</span>
             </div>
+
+            {reactionTotal > 0 && (
+              <div className="flex items-center gap-1">
+                <Heart className="w-4 h-4" />
+                <span>{reactionTotal} {reactionTotal === 1 ? "reaction" : "reactions"}</span>
+              </div>
+            )}
           </div>
           
           <div className="flex items-center gap-2">
-            {!post.published && (
+            {!post.published && (post.scheduledAt ? (
+              <span
+                className="bg-purple-100 text-purple-800 px-2 py-1 rounded-full text-xs font-medium"
+                title={`Publishes ${formatDateTime(post.scheduledAt)}`}
+              >
+                Scheduled
+              </span>
+            ) : (
               <span className="bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full text-xs font-medium">
                 Draft
               </span>
-            )}
+            ))}
             
             {variant === 'featured' && (
               <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs font-medium">
                 Featured
               </span>
             )}
+
+            {post.published && <BookmarkButton postId={post.id} />}
           </div>
         </div>
         
@@ -65,13 +94,30 @@ export function PostCard({ post, showActions = false, variant = 'default', class
         <h2 className={`font-semibold text-gray-900 mb-3 hover:text-blue-600 transition-colors ${
           variant === 'compact' ? 'text-lg' : 'text-xl'
         }`}>
-          <Link href={`/posts/${post.slug}`} className="block">
-            {post.title}
-          </Link>
+          {post.search ? (
+            <Link
+              href={`/posts/${post.slug}`}
+              className="block"
+              dangerouslySetInnerHTML={{
+                __html: highlightSearchTerm(escapeHtml(post.search.titleHighlight), searchTerm)
+              }}
+            />
+          ) : (
+            <Link href={`/posts/${post.slug}`} className="block">
+              {post.title}
+            </Link>
+          )}
         </h2>
         
-        {/* Post Preview */}
-        {variant !== 'compact' && (
+        {/* Post Preview - matching snippet when the post came from a search */}
+        {variant !== 'compact' && post.search?.snippet ? (
+          <p
+            className="text-gray-700 mb-4 line-clamp-3 text-sm"
+            dangerouslySetInnerHTML={{
+              __html: highlightSearchTerm(escapeHtml(post.search.snippet), searchTerm)
+            }}
+          />
+        ) : variant !== 'compact' && (
           <div 
             className="text-gray-700 mb-4 line-clamp-3 prose prose-sm max-w-none"
             dangerouslySetInnerHTML={{ 
@@ -100,6 +146,27 @@ export function PostCard({ post, showActions = false, variant = 'default', class
             )}
           </div>
         )}
+
+        {/* Tags */}
+        {post.tags && post.tags.length > 0 && (
+          <div className="flex items-center gap-2 flex-wrap mb-4">
+            <Hash className="w-4 h-4 text-gray-600" />
+            {post.tags.slice(0, 5).map((tag) => (
+              <Link
+                key={tag.id}
+                href={`/tags/${tag.slug}`}
+                className="text-gray-600 hover:text-blue-600 text-xs transition-colors"
+              >
+                #{tag.name}
+              </Link>
+            ))}
+            {post.tags.length > 5 && (
+              <span className="text-gray-700 text-xs">
+                +{post.tags.length - 5} more
+              </span>
+            )}
+          </div>
+        )}
         
         {/* Actions */}
         {showActions && (
@@ -0,0 +1,92 @@
+"use client";
+
+import { useEffect, type ReactNode } from "react";
+import type { z } from "zod";
+import { PostCard } from "@/components/PostCard";
+import { IntersectionLazy } from "@/components/LazyLoading";
+import { Button } from "@/components/ui";
+import { api } from "@/trpc/react";
+import type { postFiltersSchema } from "@/lib/validations";
+import { Loader2 } from "lucide-react";
+
+// Rendered once the end of the list scrolls into view; asks for the next page on mount
+function LoadMore({ onVisible }: { onVisible: () => unknown }) {
+  useEffect(() => {
+    onVisible();
+  }, [onVisible]);
+
+  return null;
+}
+
+interface PostFeedProps {
+  input: Omit<z.input<typeof postFiltersSchema>, "cursor">;
+  searchTerm?: string; // Highlighted in the cards
+  empty: ReactNode; // Shown when there are no posts
+}
+
+/**
+ * Grid of post cards from post.getAll, loading further pages as the reader scrolls
+ * Server pages prefetch the first page (with prefetchInfinite and the same input) so it arrives rendered
+ */
+export function PostFeed({ input, searchTerm, empty }: PostFeedProps) {
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+    fetchNextPage,
+  } = api.post.getAll.useInfiniteQuery(input, {
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const posts = data?.pages.flatMap((page) => page.items);
+  const pageCount = data?.pages.length ?? 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!posts || posts.length === 0) {
+    return <>{empty}</>;
+  }
+
+  return (
+    <>
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {posts.map((post) => (
+          <PostCard key={post.id} post={post} searchTerm={searchTerm} />
+        ))}
+      </div>
+
+      {/* Infinite scroll - remounted per page so each page arms it again; paused after a failed page */}
+      {hasNextPage && !isFetchingNextPage && !isFetchNextPageError && (
+        <IntersectionLazy
+          key={pageCount}
+          rootMargin="400px"
+          className="mt-12"
+          fallback={<div className="h-16" />}
+        >
+          <LoadMore onVisible={fetchNextPage} />
+        </IntersectionLazy>
+      )}
+      {hasNextPage && !isFetchingNextPage && isFetchNextPageError && (
+        <div className="flex flex-col items-center gap-2 mt-8 text-sm text-gray-600">
+          <p>Couldn&apos;t load more posts.</p>
+          <Button variant="outline" size="sm" onClick={() => void fetchNextPage()}>
+            Retry
+          </Button>
+        </div>
+      )}
+      {isFetchingNextPage && (
+        <div className="flex justify-center mt-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      )}
+    </>
+  );
+}
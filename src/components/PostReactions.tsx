@@ -0,0 +1,102 @@
+"use client";
+
+import { SignInButton, useUser } from "@clerk/nextjs";
+import { api } from "@/trpc/react";
+import { cn } from "@/lib/utils";
+import type { ReactionType } from "@/lib/schema";
+import type { ReactionCounts } from "@/types";
+
+const REACTIONS: Record<ReactionType, { emoji: string; label: string }> = {
+  like: { emoji: "👍", label: "Like" },
+  love: { emoji: "❤️", label: "Love" },
+  celebrate: { emoji: "🎉", label: "Celebrate" },
+  insightful: { emoji: "💡", label: "Insightful" },
+  funny: { emoji: "😂", label: "Funny" },
+};
+
+// Same order as reactionTypes in the schema, which isn't imported here to keep it out of the client bundle
+const REACTION_ORDER = Object.keys(REACTIONS) as ReactionType[];
+
+interface PostReactionsProps {
+  postId: number;
+  slug: string; // Key of the post.getBySlug query holding the counts
+  reactions: ReactionCounts;
+}
+
+/**
+ * Reaction buttons under a post
+ * Toggling updates the counts and the user's own reactions right away and rolls back if the server refuses;
+ * signed-out visitors see the counts and are asked to sign in when they click
+ */
+export function PostReactions({ postId, slug, reactions }: PostReactionsProps) {
+  const { isSignedIn } = useUser();
+  const utils = api.useUtils();
+  const { data: mine = [] } = api.post.getMyReactions.useQuery({ postId }, { enabled: !!isSignedIn });
+
+  const toggle = api.post.toggleReaction.useMutation({
+    onMutate: async ({ type }) => {
+      await Promise.all([
+        utils.post.getBySlug.cancel(slug),
+        utils.post.getMyReactions.cancel({ postId }),
+      ]);
+
+      const previousPost = utils.post.getBySlug.getData(slug);
+      const previousMine = utils.post.getMyReactions.getData({ postId }) ?? [];
+      const reacted = !previousMine.includes(type);
+
+      utils.post.getMyReactions.setData({ postId }, reacted
+        ? [...previousMine, type]
+        : previousMine.filter((mineType) => mineType !== type));
+      utils.post.getBySlug.setData(slug, (post) => post?.reactions && {
+        ...post,
+        reactions: { ...post.reactions, [type]: Math.max(post.reactions[type] + (reacted ? 1 : -1), 0) },
+      });
+
+      return { previousPost, previousMine };
+    },
+    onError: (_error, _input, context) => {
+      if (!context) return;
+      utils.post.getBySlug.setData(slug, context.previousPost);
+      utils.post.getMyReactions.setData({ postId }, context.previousMine);
+    },
+    onSuccess: (result, { type }) => {
+      // Settle on the server's counts, which include other readers' reactions
+      utils.post.getBySlug.setData(slug, (post) => post && { ...post, reactions: result.reactions });
+      utils.post.getMyReactions.setData({ postId }, (current = []) =>
+        result.reacted
+          ? Array.from(new Set([...current, type]))
+          : current.filter((mineType) => mineType !== type));
+    },
+  });
+
+  const buttons = (
+    <div className="flex flex-wrap items-center gap-2">
+      {REACTION_ORDER.map((type) => {
+        const active = mine.includes(type);
+        return (
+          <button
+            key={type}
+            type="button"
+            onClick={isSignedIn ? () => toggle.mutate({ postId, type }) : undefined}
+            aria-pressed={isSignedIn ? active : undefined}
+            title={REACTIONS[type].label}
+            className={cn(
+              "inline-flex items-center gap-1.5 px-3 py-1 rounded-full border text-sm transition-colors",
+              active
+                ? "border-blue-300 bg-blue-50 text-blue-800"
+                : "border-gray-200 bg-white text-gray-700 hover:bg-gray-100"
+            )}
+          >
+            <span aria-hidden="true">{REACTIONS[type].emoji}</span>
+            <span className="sr-only">{REACTIONS[type].label}</span>
+            <span className="tabular-nums">{reactions[type]}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  if (isSignedIn) return buttons;
+
+  return <SignInButton mode="modal">{buttons}</SignInButton>;
+}
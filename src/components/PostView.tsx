@@ -0,0 +1,282 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { useUser } from "@clerk/nextjs";
+import { Navbar } from "@/components/Navbar";
+import { CommentSection } from "@/components/CommentThread";
+import { PostReactions } from "@/components/PostReactions";
+import { BookmarkButton } from "@/components/BookmarkButton";
+import { api } from "@/trpc/react";
+import { Loader2, Calendar, Tag, Hash, ArrowLeft, Edit, Trash2, Clock, FileText, User } from "lucide-react";
+import { calculatePostStats, displayName, formatDateTime, formatRelativeTime } from "@/lib/utils";
+import { canManagePost } from "@/lib/permissions";
+import Link from "next/link";
+
+// Reaching the end only counts as a read after this long on the page; a short post's end
+// is on screen from the start, and skimming straight to the bottom isn't reading
+const READ_MIN_DWELL_MS = 30_000;
+
+/**
+ * Client-rendered body of /posts/[slug]
+ * The route's server page adds metadata and structured data around it
+ *
+ * @param slug - Slug of the post to show
+ */
+export function PostView({ slug }: { slug: string }) {
+  const router = useRouter();
+  const utils = api.useUtils();
+
+  // Fetch the post by slug
+  const { data: post, isLoading, error } = api.post.getBySlug.useQuery(slug);
+  const { isSignedIn } = useUser();
+  const { data: me } = api.user.me.useQuery(undefined, { enabled: !!isSignedIn });
+
+  // Delete post mutation
+  const deletePost = api.post.delete.useMutation({
+    onSuccess: () => {
+      router.push("/posts");
+    },
+  });
+
+  // Count one view per page visit once a published post has loaded,
+  // and one read once the reader has reached the end of the article and spent READ_MIN_DWELL_MS on it
+  const { mutate: recordView } = api.post.recordView.useMutation();
+  // Reaching the end also marks the post read on the reader's reading list, if it's there
+  const { mutate: markBookmarkRead } = api.bookmark.setRead.useMutation({
+    onSuccess: ({ bookmarked }) => {
+      if (bookmarked) void utils.bookmark.list.invalidate();
+    },
+  });
+  const viewedPostId = useRef<number | null>(null);
+  const readPostId = useRef<number | null>(null);
+  const viewedAt = useRef(0);
+  const articleEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (post?.published && viewedPostId.current !== post.id) {
+      viewedPostId.current = post.id;
+      viewedAt.current = Date.now();
+      recordView({ postId: post.id, referrer: document.referrer || undefined });
+    }
+  }, [post, recordView]);
+
+  useEffect(() => {
+    const end = articleEndRef.current;
+    if (!post?.published || !end || readPostId.current === post.id) return;
+
+    let readTimer: ReturnType<typeof setTimeout> | undefined;
+    const observer = new IntersectionObserver((entries) => {
+      if (!entries.some((entry) => entry.isIntersecting)) return;
+      observer.disconnect();
+      readTimer = setTimeout(() => {
+        readPostId.current = post.id;
+        recordView({ postId: post.id, kind: "read" });
+        if (me) markBookmarkRead({ postId: post.id, read: true });
+      }, Math.max(0, viewedAt.current + READ_MIN_DWELL_MS - Date.now()));
+    });
+    observer.observe(end);
+    return () => {
+      observer.disconnect();
+      clearTimeout(readTimer);
+    };
+  }, [post, me, recordView, markBookmarkRead]);
+
+  const handleDelete = async () => {
+    if (!post || !confirm("Are you sure you want to delete this post?")) return;
+    await deletePost.mutateAsync(post.id);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !post) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">Post Not Found</h1>
+            <p className="text-gray-700 mb-6">The post you&apos;re looking for doesn&apos;t exist.</p>
+            <Link
+              href="/posts"
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-md transition-colors"
+            >
+              Back to Posts
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Back Button */}
+        <div className="mb-6">
+          <Link
+            href="/posts"
+            className="inline-flex items-center text-blue-600 hover:text-blue-700 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Posts
+          </Link>
+        </div>
+
+        {/* Post Content */}
+        <article className="bg-white rounded-lg shadow-sm border">
+          {/* Header */}
+          <div className="p-6 border-b">
+            <div className="flex justify-between items-start mb-4">
+              <h1 className="text-3xl font-bold text-gray-900 leading-tight">{post.title}</h1>
+              <div className="flex items-center gap-2">
+                {post.published && <BookmarkButton postId={post.id} className="p-2" />}
+                {canManagePost(me, post) && (
+                  <>
+                    <Link
+                      href={`/posts/${post.slug}/edit`}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+                      title="Edit post"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Link>
+                    <button
+                      onClick={handleDelete}
+                      disabled={deletePost.isPending}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-md transition-colors disabled:opacity-50"
+                      title="Delete post"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* Post Statistics */}
+            <div className="bg-gray-50 rounded-lg p-4 mb-4">
+              <div className="flex flex-wrap items-center gap-6 text-sm text-gray-600">
+                {post.author && (
+                  <Link
+                    href={`/authors/${post.author.username}`}
+                    className="flex items-center gap-2 hover:text-blue-600 transition-colors"
+                  >
+                    <User className="w-4 h-4" />
+                    <span>{displayName(post.author)}</span>
+                  </Link>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Calendar className="w-4 h-4" />
+                  <span>Published {formatRelativeTime(post.createdAt)}</span>
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  <span>{calculatePostStats(post.content || '').readingTime} min read</span>
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <FileText className="w-4 h-4" />
+                  <span>{calculatePostStats(post.content || '').wordCount} words</span>
+                </div>
+
+                <div className={`px-3 py-1 rounded-full text-xs font-medium ${
+                  post.published 
+                    ? "bg-green-100 text-green-800" 
+                    : post.scheduledAt
+                      ? "bg-purple-100 text-purple-800"
+                      : "bg-yellow-100 text-yellow-800"
+                }`}>
+                  {post.published
+                    ? "Published"
+                    : post.scheduledAt
+                      ? `Scheduled for ${formatDateTime(post.scheduledAt)}`
+                      : "Draft"}
+                </div>
+              </div>
+            </div>
+
+            {/* Categories */}
+            {post.categories && post.categories.length > 0 && (
+              <div className="flex items-center gap-2 flex-wrap">
+                <Tag className="w-4 h-4 text-gray-400" />
+                <span className="text-sm text-gray-600 mr-2">Categories:</span>
+                {post.categories.map((category) => (
+                  <Link
+                    key={category.id}
+                    href={`/categories/${category.slug}`}
+                    className="bg-blue-100 hover:bg-blue-200 text-blue-800 px-3 py-1 rounded-full text-sm transition-colors"
+                  >
+                    {category.name}
+                  </Link>
+                ))}
+              </div>
+            )}
+
+            {/* Tags */}
+            {post.tags.length > 0 && (
+              <div className="flex items-center gap-2 flex-wrap mt-3">
+                <Hash className="w-4 h-4 text-gray-400" />
+                {post.tags.map((tag) => (
+                  <Link
+                    key={tag.id}
+                    href={`/tags/${tag.slug}`}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1 rounded-full text-sm transition-colors"
+                  >
+                    {tag.name}
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Content */}
+          <div className="p-6">
+            <div 
+              className="prose prose-lg max-w-none"
+              dangerouslySetInnerHTML={{ __html: post.content || '' }}
+            />
+          </div>
+
+          {/* Reactions */}
+          {post.published && post.reactions && (
+            <div className="px-6 pb-6">
+              <PostReactions postId={post.id} slug={slug} reactions={post.reactions} />
+            </div>
+          )}
+
+          {/* Footer */}
+          <div ref={articleEndRef} className="p-6 border-t bg-gray-50">
+            <div className="flex justify-between items-center text-sm text-gray-500">
+              <div>
+                Created: {new Date(post.createdAt).toLocaleDateString()}
+              </div>
+              {post.updatedAt && post.updatedAt !== post.createdAt && (
+                <div>
+                  Updated: {new Date(post.updatedAt).toLocaleDateString()}
+                </div>
+              )}
+            </div>
+          </div>
+        </article>
+
+        {/* Comments */}
+        {post.published && (
+          <CommentSection postId={post.id} postAuthorId={post.authorId} />
+        )}
+      </main>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,86 @@
+"use client";
+
+import { SignedIn } from "@clerk/nextjs";
+import { Navbar } from "@/components/Navbar";
+import { FilterBar } from "@/components/FilterBar";
+import { PostFeed } from "@/components/PostFeed";
+import { SearchBar } from "@/components/SearchBar";
+import { useFilterStore } from "@/stores/filterStore";
+import { api } from "@/trpc/react";
+import { FILTER_TAGS_INPUT, postListingInput } from "@/lib/post-listing";
+import { SavedSearches } from "@/components/SavedSearches";
+import { useFilterUrlSync } from "@/hooks/useFilterUrlSync";
+
+/**
+ * Client-rendered body of /posts
+ * The route's server page prefetches the first page so it arrives already rendered;
+ * later pages load as the reader scrolls
+ */
+export function PostsListing() {
+  const filters = useFilterStore();
+  const { searchQuery, setSearchQuery, getActiveFiltersCount } = filters;
+
+  // Filters live in the URL too, so the view can be bookmarked and shared
+  useFilterUrlSync();
+  
+  // Fetch categories for filter
+  const { data: categories = [] } = api.category.getAll.useQuery();
+
+  // Most used tags for the tag filter
+  const { data: tagPage } = api.tag.getAll.useQuery(FILTER_TAGS_INPUT);
+  const tags = tagPage?.items ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <FilterBar categories={categories} tags={tags} />
+      
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">All Posts</h1>
+          <p className="text-gray-700 mt-2">
+            Discover amazing stories and insights from our community
+          </p>
+      
+          {/* Enhanced Search */}
+          <div className="mt-6 flex flex-wrap items-start gap-4">
+            <div className="flex-1 max-w-md">
+              <SearchBar 
+                onSearch={setSearchQuery}
+                showResults
+                initialValue={searchQuery || ""}
+                placeholder="Search posts by title or content..."
+              />
+            </div>
+            <SignedIn>
+              <SavedSearches />
+            </SignedIn>
+          </div>
+        </div>
+
+        {/* Posts with filters, a page at a time */}
+        <PostFeed
+          input={postListingInput(filters)}
+          searchTerm={searchQuery || undefined}
+          empty={
+            <div className="text-center py-12">
+              <p className="text-gray-700 text-lg">
+                {getActiveFiltersCount() > 0
+                  ? "No posts found matching your filters."
+                  : "No posts available yet."}
+              </p>
+              {searchQuery && (
+                <button
+                  onClick={() => setSearchQuery("")}
+                  className="mt-4 text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  Clear search
+                </button>
+              )}
+            </div>
+          }
+        />
+      </main>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+/**
+ * Publish controls for the post editor
+ *
+ * Lets the author keep a post as a draft, publish it now, or schedule it
+ * for a future time (picked in the browser's local time zone).
+ *
+ * @param published - Whether the post is published now
+ * @param scheduledAt - Scheduled publish time, or null when not scheduled
+ * @param onChange - Called with the new published flag and schedule
+ */
+
+"use client";
+
+import React from "react";
+import { Eye, EyeOff, CalendarClock } from "lucide-react";
+import { cn, formatDateTime } from "@/lib/utils";
+
+type PublishMode = "draft" | "published" | "scheduled";
+
+interface PublishSettingsProps {
+  published: boolean;
+  scheduledAt: Date | null;
+  onChange: (value: { published: boolean; scheduledAt: Date | null }) => void;
+}
+
+// <input type="datetime-local"> works with local "YYYY-MM-DDTHH:mm" strings
+const toLocalInputValue = (date: Date): string => {
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+// Default schedule: the next full hour
+const nextFullHour = (): Date => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+};
+
+export function PublishSettings({ published, scheduledAt, onChange }: PublishSettingsProps) {
+  const mode: PublishMode = published ? "published" : scheduledAt ? "scheduled" : "draft";
+
+  const setMode = (next: PublishMode) => {
+    if (next === "published") onChange({ published: true, scheduledAt: null });
+    if (next === "draft") onChange({ published: false, scheduledAt: null });
+    if (next === "scheduled") onChange({ published: false, scheduledAt: scheduledAt ?? nextFullHour() });
+  };
+
+  const modes = [
+    { value: "draft" as const, label: "Draft", icon: EyeOff, active: "bg-gray-200 text-gray-900" },
+    { value: "published" as const, label: "Published", icon: Eye, active: "bg-green-100 text-green-800" },
+    { value: "scheduled" as const, label: "Scheduled", icon: CalendarClock, active: "bg-purple-100 text-purple-800" },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {modes.map(({ value, label, icon: Icon, active }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setMode(value)}
+            className={cn(
+              "flex items-center gap-2 px-4 py-2 rounded-md transition-colors",
+              mode === value ? active : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            )}
+            aria-pressed={mode === value}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode === "scheduled" && scheduledAt && (
+        <div className="flex flex-wrap items-center gap-3">
+          <label htmlFor="scheduledAt" className="text-sm font-medium text-gray-700">
+            Publish at
+          </label>
+          <input
+            type="datetime-local"
+            id="scheduledAt"
+            value={toLocalInputValue(scheduledAt)}
+            min={toLocalInputValue(new Date())}
+            onChange={(e) => {
+              if (e.target.value) {
+                onChange({ published: false, scheduledAt: new Date(e.target.value) });
+              }
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+            required
+          />
+          <span className="text-sm text-gray-600">
+            Goes live {formatDateTime(scheduledAt)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
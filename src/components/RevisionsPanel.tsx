@@ -0,0 +1,212 @@
+/**
+ * Revision history for the post editor
+ *
+ * Lists saved revisions, lets the user pick any two to compare side by side
+ * (title and content), and restore an earlier revision.
+ *
+ * @param postId - Post whose history is shown
+ * @param onRestored - Called with the updated post after a restore
+ */
+
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { History, RotateCcw, Loader2 } from "lucide-react";
+import { api } from "@/trpc/react";
+import { Alert, Button } from "@/components/ui";
+import { cn, formatDateTime, formatRelativeTime, getErrorMessage } from "@/lib/utils";
+import { diffLines, htmlToLines, toSideBySide, type DiffLine } from "@/lib/diff";
+import type { Post } from "@/lib/schema";
+import type { PostRevisionWithEditor } from "@/types";
+
+interface RevisionsPanelProps {
+  postId: number;
+  onRestored?: (post: Post) => void;
+}
+
+const revisionLabel = (revision: PostRevisionWithEditor) => `Revision ${revision.revisionNumber}`;
+
+const editorName = (revision: PostRevisionWithEditor) =>
+  revision.editor
+    ? [revision.editor.firstName, revision.editor.lastName].filter(Boolean).join(" ") || revision.editor.username
+    : "Unknown user";
+
+// One half of a side-by-side row
+function DiffCell({ line }: { line: DiffLine | null }) {
+  return (
+    <div
+      className={cn(
+        "px-3 py-1 text-sm whitespace-pre-wrap break-words min-h-[1.75rem]",
+        !line && "bg-gray-50",
+        line?.type === "removed" && "bg-red-50 text-red-900",
+        line?.type === "added" && "bg-green-50 text-green-900",
+        line?.type === "equal" && "text-gray-700"
+      )}
+    >
+      {line?.text}
+    </div>
+  );
+}
+
+// Two-column diff of a list of lines
+function SideBySideDiff({ before, after }: { before: string[]; after: string[] }) {
+  const rows = useMemo(() => toSideBySide(diffLines(before, after)), [before, after]);
+
+  if (rows.length === 0) {
+    return <p className="px-3 py-2 text-sm text-gray-600">Empty in both revisions.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-2 divide-x divide-gray-200 border rounded-md overflow-hidden">
+      {rows.map((row, index) => (
+        <React.Fragment key={index}>
+          <DiffCell line={row.left} />
+          <DiffCell line={row.right} />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
+
+export function RevisionsPanel({ postId, onRestored }: RevisionsPanelProps) {
+  const utils = api.useUtils();
+  const { data: revisions = [], isLoading } = api.post.getRevisions.useQuery({ postId });
+
+  // Revision ids being compared; defaults to the two most recent
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+
+  const restore = api.post.restoreRevision.useMutation({
+    onSuccess: async (post) => {
+      setFromId(null);
+      setToId(null);
+      await utils.post.getRevisions.invalidate({ postId });
+      onRestored?.(post);
+    },
+  });
+
+  const from = revisions.find((revision) => revision.id === fromId) ?? revisions[1] ?? revisions[0];
+  const to = revisions.find((revision) => revision.id === toId) ?? revisions[0];
+
+  const fromContent = useMemo(() => htmlToLines(from?.content), [from]);
+  const toContent = useMemo(() => htmlToLines(to?.content), [to]);
+  const fromTitle = useMemo(() => (from ? [from.title] : []), [from]);
+  const toTitle = useMemo(() => (to ? [to.title] : []), [to]);
+
+  // A failure shows in the "Restore failed" alert
+  const handleRestore = (revision: PostRevisionWithEditor) => {
+    if (!confirm(`Restore ${revisionLabel(revision)}? The current version stays in the history.`)) return;
+    restore.mutate({ revisionId: revision.id });
+  };
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm border mt-8">
+      <div className="p-6 border-b">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Revision History
+        </h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Pick two revisions to compare. Every save is kept, including restores.
+        </p>
+      </div>
+
+      {restore.error && (
+        <div className="px-6 pt-4">
+          <Alert variant="error" title="Restore failed" description={getErrorMessage(restore.error)} />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="p-6 text-gray-600">No revisions yet. They are recorded each time the post is saved.</p>
+      ) : (
+        <>
+          {/* Revision List */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="px-6 py-2 font-medium">From</th>
+                  <th className="px-2 py-2 font-medium">To</th>
+                  <th className="px-2 py-2 font-medium">Revision</th>
+                  <th className="px-2 py-2 font-medium">Saved</th>
+                  <th className="px-6 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {revisions.map((revision, index) => (
+                  <tr key={revision.id}>
+                    <td className="px-6 py-2">
+                      <input
+                        type="radio"
+                        name="revision-from"
+                        checked={from?.id === revision.id}
+                        onChange={() => setFromId(revision.id)}
+                        aria-label={`Compare from ${revisionLabel(revision)}`}
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="radio"
+                        name="revision-to"
+                        checked={to?.id === revision.id}
+                        onChange={() => setToId(revision.id)}
+                        aria-label={`Compare to ${revisionLabel(revision)}`}
+                      />
+                    </td>
+                    <td className="px-2 py-2 text-gray-900">
+                      <span className="font-medium">{revisionLabel(revision)}</span>
+                      {index === 0 && <span className="ml-2 text-xs text-green-700">current</span>}
+                      {revision.note && <span className="ml-2 text-gray-500">{revision.note}</span>}
+                    </td>
+                    <td className="px-2 py-2 text-gray-700" title={formatDateTime(revision.createdAt)}>
+                      {formatRelativeTime(revision.createdAt)} by {editorName(revision)}
+                    </td>
+                    <td className="px-6 py-2 text-right">
+                      {index > 0 && (
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore(revision)}
+                          disabled={restore.isPending}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Side-by-side Diff */}
+          {from && to && (
+            <div className="p-6 border-t space-y-6">
+              <div className="grid grid-cols-2 gap-4 text-sm font-medium text-gray-900">
+                <div>{revisionLabel(from)}</div>
+                <div>{revisionLabel(to)}</div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Title</h3>
+                <SideBySideDiff before={fromTitle} after={toTitle} />
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Content</h3>
+                <SideBySideDiff before={fromContent} after={toContent} />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
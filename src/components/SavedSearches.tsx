@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { Bookmark, Loader2, Trash2, X } from "lucide-react";
+import { api } from "@/trpc/react";
+import { useFilterStore, selectListingFilters } from "@/stores/filterStore";
+import { filtersFromSearchParams, filtersToQueryString } from "@/lib/filter-params";
+import { getErrorMessage } from "@/lib/utils";
+
+/**
+ * Menu of the signed-in user's saved searches for the posts listing
+ * Opening one applies its filters (and so updates the URL); the current filters can be saved under a name
+ */
+export function SavedSearches() {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const utils = api.useUtils();
+  const applyFilters = useFilterStore((state) => state.applyFilters);
+
+  const { data: searches = [], isLoading } = api.savedSearch.list.useQuery(undefined, { enabled: open });
+
+  const save = api.savedSearch.save.useMutation({
+    onSuccess: async () => {
+      setName("");
+      await utils.savedSearch.list.invalidate();
+    },
+  });
+
+  const remove = api.savedSearch.delete.useMutation({
+    onSuccess: () => utils.savedSearch.list.invalidate(),
+  });
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    save.mutate({
+      name: name.trim(),
+      query: filtersToQueryString(selectListingFilters(useFilterStore.getState())),
+    });
+  };
+
+  const handleOpen = (query: string) => {
+    applyFilters(filtersFromSearchParams(new URLSearchParams(query)));
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+      >
+        <Bookmark className="w-4 h-4" />
+        Saved searches
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-80 bg-white border border-gray-200 rounded-md shadow-lg">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="text-sm font-medium text-gray-900">Saved searches</span>
+            <button onClick={() => setOpen(false)} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+            </div>
+          ) : searches.length > 0 ? (
+            <ul className="divide-y divide-gray-100 max-h-72 overflow-auto">
+              {searches.map((search) => (
+                <li key={search.id} className="flex items-center gap-2 px-4 py-2 hover:bg-gray-50">
+                  <button
+                    onClick={() => handleOpen(search.query)}
+                    className="flex-1 min-w-0 text-left text-sm text-gray-900 truncate"
+                    title={search.query || "No filters"}
+                  >
+                    {search.name}
+                  </button>
+                  <button
+                    onClick={() => remove.mutate(search.id)}
+                    disabled={remove.isPending}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded-md transition-colors disabled:opacity-50"
+                    title="Delete saved search"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-4 py-3 text-sm text-gray-600">Nothing saved yet.</p>
+          )}
+
+          {/* Save Current Filters */}
+          <form onSubmit={handleSave} className="flex gap-2 p-3 border-t bg-gray-50">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              placeholder="Name this search"
+              className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-900 placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim() || save.isPending}
+              className="px-3 py-1.5 rounded-md text-sm bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          </form>
+          {save.error && (
+            <p className="px-3 pb-3 text-sm text-red-600 bg-gray-50">{getErrorMessage(save.error)}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,43 +1,71 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { Search, X } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { Search, X, Loader2 } from "lucide-react";
+import { api } from "@/trpc/react";
+import { useDebounce } from "@/hooks";
+import { escapeHtml, highlightSearchTerm } from "@/lib/utils";
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
   placeholder?: string;
   initialValue?: string;
+  showResults?: boolean; // Show a dropdown with the best matching posts
 }
 
-export function SearchBar({ onSearch, placeholder = "Search posts...", initialValue = "" }: SearchBarProps) {
+export function SearchBar({ onSearch, placeholder = "Search posts...", initialValue = "", showResults = false }: SearchBarProps) {
   const [query, setQuery] = useState(initialValue);
+  const [isFocused, setIsFocused] = useState(false);
+  const debouncedQuery = useDebounce(query.trim(), 300);
+
+  const reportedQuery = useRef(initialValue);
 
   useEffect(() => {
     const debounced = setTimeout(() => {
+      reportedQuery.current = query;
       onSearch(query);
     }, 300);
 
     return () => clearTimeout(debounced);
   }, [query, onSearch]);
 
+  // Follow changes made elsewhere (filter bar, URL, saved searches), but not the echo of our own
+  useEffect(() => {
+    if (initialValue !== reportedQuery.current) {
+      reportedQuery.current = initialValue;
+      setQuery(initialValue);
+    }
+  }, [initialValue]);
+
+  // Ranked matches with highlighted titles and snippets
+  const { data: results = [], isFetching } = api.post.search.useQuery(
+    { query: debouncedQuery, limit: 5 },
+    { enabled: showResults && debouncedQuery.length > 0 }
+  );
+
   const clearSearch = () => {
     setQuery("");
   };
 
+  const showDropdown = showResults && isFocused && debouncedQuery.length > 0;
+
   return (
     <div className="relative">
       <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
         <Search className="h-5 w-5 text-gray-700" />
       </div>
-      
+
       <input
         type="text"
         value={query}
         onChange={(e) => setQuery(e.target.value)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setTimeout(() => setIsFocused(false), 150)}
         className="block w-full pl-10 pr-10 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 text-gray-900 focus:outline-none focus:placeholder-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
         placeholder={placeholder}
       />
-      
+
       {query && (
         <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
           <button
@@ -48,6 +76,45 @@ export function SearchBar({ onSearch, placeholder = "Search posts...", initialVa
           </button>
         </div>
       )}
+
+      {showDropdown && (
+        <div className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg">
+          {isFetching && results.length === 0 ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+            </div>
+          ) : results.length > 0 ? (
+            <ul className="divide-y divide-gray-100 max-h-96 overflow-auto">
+              {results.map((result) => (
+                <li key={result.id}>
+                  <Link
+                    href={`/posts/${result.slug}`}
+                    onMouseDown={(e) => e.preventDefault()}
+                    className="block px-4 py-3 hover:bg-gray-50"
+                  >
+                    <p
+                      className="font-medium text-gray-900"
+                      dangerouslySetInnerHTML={{
+                        __html: highlightSearchTerm(escapeHtml(result.search.titleHighlight), debouncedQuery)
+                      }}
+                    />
+                    {result.search.snippet && (
+                      <p
+                        className="mt-1 text-sm text-gray-600 line-clamp-2"
+                        dangerouslySetInnerHTML={{
+                          __html: highlightSearchTerm(escapeHtml(result.search.snippet), debouncedQuery)
+                        }}
+                      />
+                    )}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-4 py-3 text-sm text-gray-600">No matching posts</p>
+          )}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,108 @@
+/**
+ * Search-engine fields for the post editor
+ *
+ * Optional title and description overrides with character counters, and a
+ * preview of how the post shows up in search results. Blank fields fall back
+ * to the post title and excerpt.
+ *
+ * @param title - Post title, used when no SEO title is set
+ * @param content - Post HTML, used for the fallback description
+ * @param seoTitle - SEO title override
+ * @param seoDescription - SEO description override
+ * @param onChange - Called with the new overrides
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { ChevronDown, ChevronRight, Search } from "lucide-react";
+import { cn, extractPreview } from "@/lib/utils";
+
+const SEO_TITLE_MAX = 60;
+const SEO_DESCRIPTION_MAX = 160;
+
+interface SeoSettingsProps {
+  title: string;
+  content: string;
+  seoTitle: string;
+  seoDescription: string;
+  onChange: (value: { seoTitle: string; seoDescription: string }) => void;
+}
+
+// "12/60", turning red once over the limit
+function CharacterCount({ length, max }: { length: number; max: number }) {
+  return (
+    <span className={cn("text-xs", length > max ? "text-red-600" : "text-gray-500")}>
+      {length}/{max}
+    </span>
+  );
+}
+
+export function SeoSettings({ title, content, seoTitle, seoDescription, onChange }: SeoSettingsProps) {
+  // Start open when the post already has overrides
+  const [isOpen, setIsOpen] = useState(Boolean(seoTitle || seoDescription));
+
+  const previewTitle = seoTitle || title || "Post title";
+  const previewDescription = seoDescription || extractPreview(content, SEO_DESCRIPTION_MAX) || "Post description";
+
+  return (
+    <div className="border rounded-md">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <Search className="w-4 h-4" />
+        Search engine listing
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="seoTitle" className="text-sm font-medium text-gray-700">
+                SEO title
+              </label>
+              <CharacterCount length={seoTitle.length} max={SEO_TITLE_MAX} />
+            </div>
+            <input
+              type="text"
+              id="seoTitle"
+              value={seoTitle}
+              maxLength={SEO_TITLE_MAX}
+              onChange={(e) => onChange({ seoTitle: e.target.value, seoDescription })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 placeholder-gray-500"
+              placeholder={title || "Defaults to the post title"}
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="seoDescription" className="text-sm font-medium text-gray-700">
+                SEO description
+              </label>
+              <CharacterCount length={seoDescription.length} max={SEO_DESCRIPTION_MAX} />
+            </div>
+            <textarea
+              id="seoDescription"
+              value={seoDescription}
+              maxLength={SEO_DESCRIPTION_MAX}
+              rows={3}
+              onChange={(e) => onChange({ seoTitle, seoDescription: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 placeholder-gray-500"
+              placeholder="Defaults to the start of the post"
+            />
+          </div>
+
+          {/* Search Result Preview */}
+          <div className="p-3 bg-gray-50 rounded-md">
+            <p className="text-blue-700 text-lg truncate">{previewTitle}</p>
+            <p className="text-sm text-gray-600 line-clamp-2">{previewDescription}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+/**
+ * Loads persisted Zustand state once the app has mounted
+ *
+ * Stores with skipHydration start from their defaults so the first client render
+ * matches the server HTML; saved values are applied right after.
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import { useFilterStore } from "@/stores/filterStore";
+
+export function StoreHydration() {
+  useEffect(() => {
+    void useFilterStore.persist.rehydrate();
+  }, []);
+
+  return null;
+}
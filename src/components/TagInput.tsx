@@ -0,0 +1,160 @@
+/**
+ * Tag picker with autocomplete
+ *
+ * Suggests existing tags as the user types and lets them create a new tag
+ * when nothing matches. Selected tags are shown as removable chips.
+ *
+ * @param value - Currently selected tags
+ * @param onChange - Called with the new selection
+ * @param maxTags - Maximum number of tags that can be selected
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { Plus, X, Loader2 } from "lucide-react";
+import { api } from "@/trpc/react";
+import { useDebounce } from "@/hooks";
+import { getErrorMessage } from "@/lib/utils";
+import type { Tag } from "@/lib/schema";
+
+export type TagOption = Pick<Tag, "id" | "name" | "slug" | "color">;
+
+interface TagInputProps {
+  value: TagOption[];
+  onChange: (tags: TagOption[]) => void;
+  maxTags?: number;
+}
+
+export function TagInput({ value, onChange, maxTags = 20 }: TagInputProps) {
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const debouncedQuery = useDebounce(query.trim(), 200);
+
+  const { data: suggestions = [], isFetching } = api.tag.getSuggestions.useQuery(
+    { query: debouncedQuery, limit: 8 },
+    { enabled: debouncedQuery.length > 0 }
+  );
+
+  const createTag = api.tag.create.useMutation();
+
+  const selectedIds = new Set(value.map((tag) => tag.id));
+  const available = suggestions.filter((tag) => !selectedIds.has(tag.id));
+  const trimmed = query.trim();
+  const exactMatch = [...suggestions, ...value].some(
+    (tag) => tag.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  const canCreate = trimmed.length >= 2 && !exactMatch && debouncedQuery === trimmed && !isFetching;
+  const isFull = value.length >= maxTags;
+
+  const addTag = (tag: TagOption) => {
+    if (!selectedIds.has(tag.id) && !isFull) {
+      onChange([...value, tag]);
+    }
+    setQuery("");
+    setIsOpen(false);
+  };
+
+  const removeTag = (id: number) => {
+    onChange(value.filter((tag) => tag.id !== id));
+  };
+
+  // A failure (e.g. the name was just taken) shows below the input
+  const handleCreate = () => {
+    createTag.mutate({ name: trimmed }, {
+      onSuccess: (tag) => {
+        if (tag) addTag(tag);
+      },
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      // Keep Enter from submitting the surrounding post form
+      e.preventDefault();
+      const match = available.find((tag) => tag.name.toLowerCase() === trimmed.toLowerCase()) ?? available[0];
+      if (match) {
+        addTag(match);
+      } else if (canCreate) {
+        handleCreate();
+      }
+    } else if (e.key === "Backspace" && !query && value.length > 0) {
+      removeTag(value[value.length - 1]!.id);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent">
+        {value.map((tag) => (
+          <span
+            key={tag.id}
+            className="flex items-center gap-1 bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs"
+          >
+            {tag.name}
+            <button
+              type="button"
+              onClick={() => removeTag(tag.id)}
+              className="hover:text-blue-900"
+              aria-label={`Remove tag ${tag.name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          disabled={isFull}
+          maxLength={50}
+          className="flex-1 min-w-[8rem] outline-none text-sm text-gray-900 placeholder-gray-500 disabled:bg-transparent"
+          placeholder={isFull ? `Up to ${maxTags} tags` : "Add tags..."}
+        />
+        {(isFetching || createTag.isPending) && <Loader2 className="w-4 h-4 animate-spin text-gray-500" />}
+      </div>
+
+      {isOpen && trimmed && (available.length > 0 || canCreate) && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
+          {available.map((tag) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+                className="w-full text-left px-3 py-2 text-sm text-gray-900 hover:bg-gray-100"
+              >
+                {tag.name}
+              </button>
+            </li>
+          ))}
+          {canCreate && (
+            <li>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={handleCreate}
+                className="w-full flex items-center gap-2 text-left px-3 py-2 text-sm text-blue-600 hover:bg-blue-50"
+              >
+                <Plus className="w-4 h-4" />
+                Create tag &quot;{trimmed}&quot;
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+
+      {createTag.error && (
+        <p className="mt-1 text-sm text-red-600">{getErrorMessage(createTag.error)}</p>
+      )}
+    </div>
+  );
+}
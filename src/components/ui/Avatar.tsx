@@ -0,0 +1,38 @@
+"use client";
+
+import React from 'react';
+import Image from 'next/image';
+import { cn } from '@/lib/utils';
+
+interface AvatarProps {
+  src?: string | null;
+  name?: string; // First letter shown when there's no picture
+  size: number; // Rendered width and height in pixels
+  className?: string;
+}
+
+// Avatars are user-supplied URLs from any host, so they're shown as-is rather than through the image optimizer
+export function Avatar({ src, name, size, className }: AvatarProps) {
+  if (src) {
+    return (
+      <Image
+        src={src}
+        alt=""
+        width={size}
+        height={size}
+        unoptimized
+        className={cn('rounded-full flex-shrink-0 object-cover', className)}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={cn('rounded-full bg-gray-200 flex items-center justify-center font-semibold text-gray-500 flex-shrink-0', className)}
+      style={{ width: size, height: size, fontSize: size * 0.4 }}
+      aria-hidden="true"
+    >
+      {name?.charAt(0).toUpperCase()}
+    </div>
+  );
+}
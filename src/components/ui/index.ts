@@ -5,4 +5,5 @@ export { LoadingSpinner } from './LoadingSpinner';
 export { EmptyState } from './EmptyState';
 export { Card } from './Card';
 export { Input } from './Input';
-export { Textarea } from './Textarea';
\ No newline at end of file
+export { Textarea } from './Textarea';
+export { Avatar } from './Avatar';
\ No newline at end of file
@@ -0,0 +1,182 @@
+"use client";
+
+// Server-side autosave for the post editor pages
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api } from "@/trpc/react";
+import { useDebounce } from "@/hooks";
+import { useEditorStore } from "@/stores/editorStore";
+import type { EditorDraft, ServerDraft } from "@/types";
+
+// Wait for a pause in typing before saving
+const AUTOSAVE_DELAY_MS = 2000;
+
+// Fields compared when deciding whether a server draft differs from the editor
+// (jsonb doesn't keep key order, so the drafts can't simply be compared as JSON strings)
+const DRAFT_FIELDS = [
+  "title",
+  "content",
+  "excerpt",
+  "slug",
+  "selectedCategoryIds",
+  "selectedTagIds",
+  "published",
+  "featured",
+  "seoTitle",
+  "seoDescription",
+  "scheduledAt",
+  "autoApproveComments",
+] as const;
+
+const isSameDraft = (a: Omit<EditorDraft, "timestamp">, b: Omit<EditorDraft, "timestamp">) =>
+  DRAFT_FIELDS.every((field) => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+
+export type DraftSaveStatus = "idle" | "saving" | "saved" | "error" | "conflict";
+
+interface UseDraftAutosaveOptions {
+  postId: number | null; // null on the create page
+  draft: Omit<EditorDraft, "timestamp">; // Current editor values
+  ready: boolean; // False until the page has loaded its initial values
+  savedAt?: Date | null; // When the post itself was last saved; older drafts aren't offered for resuming
+  onRestore: (draft: EditorDraft) => void; // Apply a server draft to the editor
+}
+
+/**
+ * Debounced autosave of the editor state to post.saveDraft
+ * - Offers to resume a server draft that is newer than the saved post
+ * - Detects drafts saved elsewhere (another device or tab) since this editor last synced
+ * - Honors autoSaveEnabled and records lastSaved in the editor store
+ */
+export function useDraftAutosave({ postId, draft, ready, savedAt, onRestore }: UseDraftAutosaveOptions) {
+  const { autoSaveEnabled, setAutoSaveEnabled, setLastSaved } = useEditorStore();
+
+  const [status, setStatus] = useState<DraftSaveStatus>("idle");
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [initialized, setInitialized] = useState(false);
+  const [pendingDraft, setPendingDraft] = useState<ServerDraft | null>(null);
+  const [conflict, setConflict] = useState<ServerDraft | null>(null);
+
+  // updatedAt of the server draft our edits build on, and the last snapshot we saved
+  const baseUpdatedAtRef = useRef<Date | null>(null);
+  const lastSnapshotRef = useRef<string | null>(null);
+
+  const serialized = JSON.stringify(draft);
+  const debouncedSnapshot = useDebounce(serialized, AUTOSAVE_DELAY_MS);
+
+  const { data: serverDraft, isSuccess } = api.post.getDraft.useQuery(
+    { postId },
+    { enabled: ready, refetchOnWindowFocus: false }
+  );
+
+  const { mutateAsync: saveDraftAsync, isPending: isSaving } = api.post.saveDraft.useMutation();
+  const discardDraftMutation = api.post.discardDraft.useMutation();
+
+  // Decide once, after the server draft loads, whether to offer resuming it
+  useEffect(() => {
+    if (!ready || !isSuccess || initialized) return;
+
+    const differs = !!serverDraft && !isSameDraft(serverDraft.draft, draft);
+    const newerThanPost = !!serverDraft && (!savedAt || serverDraft.draft.timestamp > savedAt);
+
+    if (serverDraft && differs && newerThanPost) {
+      setPendingDraft(serverDraft);
+    } else {
+      baseUpdatedAtRef.current = serverDraft?.updatedAt ?? null;
+    }
+
+    lastSnapshotRef.current = serialized;
+    setInitialized(true);
+  }, [ready, isSuccess, initialized, serverDraft, savedAt, draft, serialized]);
+
+  const save = useCallback(
+    async (snapshot: string, force = false) => {
+      setStatus("saving");
+      try {
+        // JSON turns the schedule into a string; the API expects a Date again
+        const parsed = JSON.parse(snapshot) as Omit<EditorDraft, "timestamp">;
+        const result = await saveDraftAsync({
+          postId,
+          draft: {
+            ...parsed,
+            scheduledAt: parsed.scheduledAt ? new Date(parsed.scheduledAt) : parsed.scheduledAt,
+            timestamp: new Date(),
+          },
+          baseUpdatedAt: baseUpdatedAtRef.current,
+          force,
+        });
+
+        if (result.status === "conflict") {
+          setConflict({ draft: result.draft, updatedAt: result.updatedAt });
+          setStatus("conflict");
+          return;
+        }
+
+        baseUpdatedAtRef.current = result.updatedAt;
+        lastSnapshotRef.current = snapshot;
+        setLastSaved(result.updatedAt);
+        setLastSavedAt(result.updatedAt);
+        setConflict(null);
+        setStatus("saved");
+      } catch {
+        setStatus("error");
+      }
+    },
+    [postId, saveDraftAsync, setLastSaved]
+  );
+
+  // Autosave whenever the debounced editor state changes
+  useEffect(() => {
+    if (!initialized || pendingDraft || conflict || !autoSaveEnabled || isSaving) return;
+    if (debouncedSnapshot === lastSnapshotRef.current) return;
+
+    void save(debouncedSnapshot);
+  }, [debouncedSnapshot, initialized, pendingDraft, conflict, autoSaveEnabled, isSaving, save]);
+
+  const resumeDraft = () => {
+    if (!pendingDraft) return;
+    onRestore(pendingDraft.draft);
+    baseUpdatedAtRef.current = pendingDraft.updatedAt;
+    setPendingDraft(null);
+  };
+
+  // The prompt stays up if discarding fails, so it can be tried again
+  const discardDraft = () => {
+    discardDraftMutation.mutate({ postId }, {
+      onSuccess: () => {
+        setPendingDraft(null);
+        baseUpdatedAtRef.current = null;
+      },
+    });
+  };
+
+  // Conflict: load the newer server draft into the editor
+  const loadServerDraft = () => {
+    if (!conflict) return;
+    onRestore(conflict.draft);
+    baseUpdatedAtRef.current = conflict.updatedAt;
+    setConflict(null);
+    setStatus("idle");
+  };
+
+  // Conflict: overwrite the server draft with what's in this editor
+  const keepLocalDraft = async () => {
+    setConflict(null);
+    await save(serialized, true);
+  };
+
+  return {
+    status,
+    lastSavedAt,
+    autoSaveEnabled,
+    setAutoSaveEnabled,
+    pendingDraft,
+    conflict,
+    resumeDraft,
+    discardDraft,
+    isDiscarding: discardDraftMutation.isPending,
+    discardError: discardDraftMutation.error,
+    loadServerDraft,
+    keepLocalDraft,
+  };
+}
+
+export type DraftAutosave = ReturnType<typeof useDraftAutosave>;
@@ -0,0 +1,108 @@
+"use client";
+
+// Keeps the posts listing filters and the page URL in step
+import { useEffect } from "react";
+import { useFilterStore, selectListingFilters } from "@/stores/filterStore";
+import { filtersFromSearchParams, filtersToQueryString, hasFilterParams } from "@/lib/filter-params";
+
+// Quick successive changes (typing a search) share one history entry
+const HISTORY_ENTRY_DELAY_MS = 500;
+
+const queryOf = () => filtersToQueryString(selectListingFilters(useFilterStore.getState()));
+
+const urlFor = (query: string) =>
+  `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+
+// Next.js keeps its router state in history.state, so ours is added alongside it
+const writeHistory = (mode: "push" | "replace", query: string) => {
+  const state = { ...window.history.state, filterHistoryIndex: useFilterStore.getState().historyIndex };
+  if (mode === "push") {
+    window.history.pushState(state, "", urlFor(query));
+  } else {
+    window.history.replaceState(state, "", urlFor(query));
+  }
+};
+
+/**
+ * Syncs filterStore with the URL search params of the current page
+ * - On load, filters in the URL win over saved ones; without any, the URL shows the saved filters
+ * - Each change adds a browser history entry and a filterStore history snapshot
+ * - Back/forward step through filterStore's undo/redo history, falling back to
+ *   reading the URL when the snapshot is gone (the store keeps only the last few)
+ */
+export function useFilterUrlSync() {
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let pendingEntry: ReturnType<typeof setTimeout> | undefined;
+    let navigating = false;
+
+    const start = () => {
+      const store = useFilterStore.getState();
+      const params = new URLSearchParams(window.location.search);
+
+      if (hasFilterParams(params)) {
+        store.applyFilters(filtersFromSearchParams(params));
+      }
+      useFilterStore.getState().saveToHistory();
+      writeHistory("replace", queryOf());
+
+      unsubscribe = useFilterStore.subscribe(
+        (state) => filtersToQueryString(selectListingFilters(state)),
+        () => {
+          if (navigating) return;
+
+          clearTimeout(pendingEntry);
+          pendingEntry = setTimeout(() => {
+            useFilterStore.getState().saveToHistory();
+            writeHistory("push", queryOf());
+          }, HISTORY_ENTRY_DELAY_MS);
+        }
+      );
+    };
+
+    const onPopState = (event: PopStateEvent) => {
+      const state: unknown = event.state;
+      const target = state && typeof state === "object" && "filterHistoryIndex" in state
+        ? Number(state.filterHistoryIndex)
+        : null;
+      const query = new URLSearchParams(window.location.search).toString();
+
+      clearTimeout(pendingEntry);
+      navigating = true;
+      try {
+        const store = useFilterStore.getState();
+        const snapshot = target !== null ? store.filterHistory[target] : undefined;
+
+        if (target !== null && snapshot && filtersToQueryString(snapshot) === query) {
+          while (useFilterStore.getState().historyIndex > target && useFilterStore.getState().canUndo()) {
+            useFilterStore.getState().undo();
+          }
+          while (useFilterStore.getState().historyIndex < target && useFilterStore.getState().canRedo()) {
+            useFilterStore.getState().redo();
+          }
+        } else {
+          store.applyFilters(filtersFromSearchParams(new URLSearchParams(query)));
+        }
+      } finally {
+        navigating = false;
+      }
+    };
+
+    // Saved filters load after mount (see StoreHydration); the URL must be applied after them
+    let unsubscribeHydration: (() => void) | undefined;
+    if (useFilterStore.persist.hasHydrated()) {
+      start();
+    } else {
+      unsubscribeHydration = useFilterStore.persist.onFinishHydration(start);
+    }
+
+    window.addEventListener("popstate", onPopState);
+
+    return () => {
+      unsubscribeHydration?.();
+      unsubscribe?.();
+      clearTimeout(pendingEntry);
+      window.removeEventListener("popstate", onPopState);
+    };
+  }, []);
+}
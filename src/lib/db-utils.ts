@@ -1,5 +1,5 @@
 // Database utilities and optimized query helpers
-import { eq, and, or, desc, asc, count, sql, like, ilike, inArray, isNull } from "drizzle-orm";
+import { eq, and, or, desc, asc, count, sql, like, ilike, inArray, isNull, between, type Column } from "drizzle-orm";
 import { db } from "@/server/db";
 import { 
   posts, 
@@ -9,11 +9,16 @@ import {
   tags, 
   postTags, 
   comments,
+  postReactions,
+  postViewsDaily,
+  postReferrersDaily,
   type Post,
+  type Category,
   type PostWithDetails,
   type CategoryWithHierarchy,
   type CommentWithAuthor
 } from "@/lib/schema";
+import type { AnalyticsDay, AnalyticsPostStats, AnalyticsTotals } from "@/types";
 
 // Optimized post queries with proper joins and pagination
 export class PostQueries {
@@ -23,15 +28,19 @@ export class PostQueries {
     offset = 0,
     authorId,
     categoryId,
+    tagId,
     published,
     search,
+    orderBy = 'createdAt',
   }: {
     limit?: number;
     offset?: number;
     authorId?: number;
     categoryId?: number;
+    tagId?: number;
     published?: boolean;
     search?: string;
+    orderBy?: 'createdAt' | 'publishedAt';
   } = {}) {
     const conditions = [];
     
@@ -46,8 +55,30 @@ export class PostQueries {
       );
     }
     if (categoryId) {
-      conditions.push(eq(postCategories.categoryId, categoryId));
+      conditions.push(CategoryQueries.postsInCategoryCondition(categoryId));
     }
+    if (tagId) {
+      conditions.push(
+        inArray(
+          posts.id,
+          db.select({ postId: postTags.postId }).from(postTags).where(eq(postTags.tagId, tagId))
+        )
+      );
+    }
+
+    // Posts without a publish date (drafts, older rows) fall back to their creation date
+    const sortColumn = orderBy === 'publishedAt'
+      ? sql`coalesce(${posts.publishedAt}, ${posts.createdAt})`
+      : posts.createdAt;
+
+    // Page over posts first - limiting the joined rows would cut posts with several categories short
+    const pagedPostIds = db
+      .select({ id: posts.id })
+      .from(posts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(sortColumn), desc(posts.id))
+      .limit(limit)
+      .offset(offset);
 
     const results = await db
       .select({
@@ -61,10 +92,8 @@ export class PostQueries {
       .leftJoin(users, eq(posts.authorId, users.id))
       .leftJoin(postCategories, eq(posts.id, postCategories.postId))
       .leftJoin(categories, eq(postCategories.categoryId, categories.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .orderBy(desc(posts.createdAt))
-      .limit(limit)
-      .offset(offset);
+      .where(inArray(posts.id, pagedPostIds))
+      .orderBy(desc(sortColumn), desc(posts.id));
     
     // Group results by post
     const postsMap = new Map<number, PostWithDetails>();
@@ -185,7 +214,6 @@ export class CategoryQueries {
         const parent = categoryMap.get(cat.parentId);
         if (parent) {
           parent.children.push(cat);
-          cat.parent = parent;
         }
       } else {
         rootCategories.push(cat);
@@ -195,7 +223,54 @@ export class CategoryQueries {
     return rootCategories;
   }
 
-  // Get category with posts
+  /**
+   * Subquery of the ids of a category and all its descendants, for use with inArray()
+   * `UNION` (not `UNION ALL`) stops the recursion should the hierarchy ever contain a cycle
+   */
+  static subtreeIds(categoryId: number) {
+    return sql<number>`(
+      WITH RECURSIVE subtree(id) AS (
+        SELECT ${categories.id} FROM ${categories} WHERE ${categories.id} = ${categoryId}
+        UNION
+        SELECT child.id FROM ${categories} child JOIN subtree ON child.parent_id = subtree.id
+      )
+      SELECT id FROM subtree
+    )`;
+  }
+
+  /**
+   * Parent chain of a category for breadcrumbs, top-level category first (excludes the category itself)
+   * The depth guard stops the walk should the hierarchy ever contain a cycle
+   */
+  static async getAncestors(categoryId: number): Promise<Pick<Category, 'id' | 'name' | 'slug'>[]> {
+    const rows = await db.execute<{ id: number; name: string; slug: string }>(sql`
+      WITH RECURSIVE ancestors(id, name, slug, parent_id, depth) AS (
+        SELECT parent.id, parent.name, parent.slug, parent.parent_id, 1
+        FROM ${categories} child JOIN ${categories} parent ON parent.id = child.parent_id
+        WHERE child.id = ${categoryId}
+        UNION ALL
+        SELECT parent.id, parent.name, parent.slug, parent.parent_id, ancestors.depth + 1
+        FROM ${categories} parent JOIN ancestors ON parent.id = ancestors.parent_id
+        WHERE ancestors.depth < 32
+      )
+      SELECT id, name, slug FROM ancestors ORDER BY depth DESC
+    `);
+
+    return Array.from(rows);
+  }
+
+  // Condition matching posts filed under a category or any of its descendants
+  static postsInCategoryCondition(categoryId: number) {
+    return inArray(
+      posts.id,
+      db
+        .select({ postId: postCategories.postId })
+        .from(postCategories)
+        .where(inArray(postCategories.categoryId, CategoryQueries.subtreeIds(categoryId)))
+    );
+  }
+
+  // Get category with posts (including posts in its descendant categories)
   static async getCategoryWithPosts(categorySlug: string, limit = 10, offset = 0) {
     const category = await db
       .select()
@@ -263,7 +338,30 @@ export class CommentQueries {
   }
 }
 
+// Inclusive range of UTC days, as YYYY-MM-DD
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Subquery of the ids of an author's posts, narrowed to one post when given
+const authorPostIds = (authorId: number, postId?: number) =>
+  db
+    .select({ id: posts.id })
+    .from(posts)
+    .where(postId ? and(eq(posts.authorId, authorId), eq(posts.id, postId)) : eq(posts.authorId, authorId));
+
+// Comments that count as engagement: approved and not deleted
+const visibleCommentCondition = sql`${comments.isApproved} = true AND ${comments.isDeleted} = false`;
+
+// Timestamp falls on a day within the range
+const onDay = (column: Column, range: AnalyticsRange) =>
+  sql`(${column})::date BETWEEN ${range.from} AND ${range.to}`;
+
 // Analytics and reporting queries
+// Likes are reactions of any type left on the post
 export class AnalyticsQueries {
   // Get popular posts by view count
   static async getPopularPosts(limit = 10, timeframe?: 'week' | 'month' | 'year') {
@@ -308,6 +406,138 @@ export class AnalyticsQueries {
 
     return stats;
   }
+
+  // Inclusive range of UTC days (YYYY-MM-DD) covering the last `days` days,
+  // shifted back by `periodsAgo` whole periods (1 = the period before)
+  static getDateRange(days: number, periodsAgo = 0): AnalyticsRange {
+    const to = new Date();
+    to.setUTCHours(0, 0, 0, 0);
+    to.setUTCDate(to.getUTCDate() - days * periodsAgo);
+
+    const from = new Date(to);
+    from.setUTCDate(from.getUTCDate() - (days - 1));
+
+    return { from: toDay(from), to: toDay(to) };
+  }
+
+  // Views, reads, comments and likes on an author's posts (or one of them) within a range
+  static async getTotals(authorId: number, range: AnalyticsRange, postId?: number): Promise<AnalyticsTotals> {
+    const postIds = authorPostIds(authorId, postId);
+
+    const [[viewStats], [commentStats], [likeStats]] = await Promise.all([
+      db
+        .select({
+          views: sql<number>`COALESCE(SUM(${postViewsDaily.views}), 0)::int`,
+          reads: sql<number>`COALESCE(SUM(${postViewsDaily.reads}), 0)::int`,
+        })
+        .from(postViewsDaily)
+        .where(and(inArray(postViewsDaily.postId, postIds), between(postViewsDaily.day, range.from, range.to))),
+      db
+        .select({ comments: count() })
+        .from(comments)
+        .where(and(inArray(comments.postId, postIds), visibleCommentCondition, onDay(comments.createdAt, range))),
+      db
+        .select({ likes: count() })
+        .from(postReactions)
+        .where(and(inArray(postReactions.postId, postIds), onDay(postReactions.createdAt, range))),
+    ]);
+
+    return {
+      views: viewStats?.views ?? 0,
+      reads: viewStats?.reads ?? 0,
+      comments: commentStats?.comments ?? 0,
+      likes: likeStats?.likes ?? 0,
+    };
+  }
+
+  // Daily totals for an author's posts (or one of them), with a zero entry for days without activity
+  static async getTimeSeries(authorId: number, range: AnalyticsRange, postId?: number): Promise<AnalyticsDay[]> {
+    const postIds = authorPostIds(authorId, postId);
+    const commentDay = sql<string>`(${comments.createdAt})::date::text`;
+    const likeDay = sql<string>`(${postReactions.createdAt})::date::text`;
+
+    const [viewRows, commentRows, likeRows] = await Promise.all([
+      db
+        .select({
+          day: postViewsDaily.day,
+          views: sql<number>`SUM(${postViewsDaily.views})::int`,
+          reads: sql<number>`SUM(${postViewsDaily.reads})::int`,
+        })
+        .from(postViewsDaily)
+        .where(and(inArray(postViewsDaily.postId, postIds), between(postViewsDaily.day, range.from, range.to)))
+        .groupBy(postViewsDaily.day),
+      db
+        .select({ day: commentDay, comments: count() })
+        .from(comments)
+        .where(and(inArray(comments.postId, postIds), visibleCommentCondition, onDay(comments.createdAt, range)))
+        .groupBy(commentDay),
+      db
+        .select({ day: likeDay, likes: count() })
+        .from(postReactions)
+        .where(and(inArray(postReactions.postId, postIds), onDay(postReactions.createdAt, range)))
+        .groupBy(likeDay),
+    ]);
+
+    const series = new Map<string, AnalyticsDay>();
+    for (const day = new Date(range.from); toDay(day) <= range.to; day.setUTCDate(day.getUTCDate() + 1)) {
+      series.set(toDay(day), { day: toDay(day), views: 0, reads: 0, comments: 0, likes: 0 });
+    }
+
+    for (const row of viewRows) {
+      const entry = series.get(row.day);
+      if (entry) Object.assign(entry, { views: row.views, reads: row.reads });
+    }
+    for (const row of commentRows) {
+      const entry = series.get(row.day);
+      if (entry) entry.comments = row.comments;
+    }
+    for (const row of likeRows) {
+      const entry = series.get(row.day);
+      if (entry) entry.likes = row.likes;
+    }
+
+    return Array.from(series.values());
+  }
+
+  // An author's published posts with their totals within a range, most viewed first
+  static async getPostStats(authorId: number, range: AnalyticsRange, limit = 20): Promise<AnalyticsPostStats[]> {
+    const views = sql<number>`COALESCE((SELECT SUM(${postViewsDaily.views}) FROM ${postViewsDaily} WHERE ${postViewsDaily.postId} = ${posts.id} AND ${between(postViewsDaily.day, range.from, range.to)}), 0)::int`;
+
+    return await db
+      .select({
+        id: posts.id,
+        title: posts.title,
+        slug: posts.slug,
+        publishedAt: posts.publishedAt,
+        views,
+        reads: sql<number>`COALESCE((SELECT SUM(${postViewsDaily.reads}) FROM ${postViewsDaily} WHERE ${postViewsDaily.postId} = ${posts.id} AND ${between(postViewsDaily.day, range.from, range.to)}), 0)::int`,
+        comments: sql<number>`(SELECT COUNT(*) FROM ${comments} WHERE ${comments.postId} = ${posts.id} AND ${visibleCommentCondition} AND ${onDay(comments.createdAt, range)})::int`,
+        likes: sql<number>`(SELECT COUNT(*) FROM ${postReactions} WHERE ${postReactions.postId} = ${posts.id} AND ${onDay(postReactions.createdAt, range)})::int`,
+      })
+      .from(posts)
+      .where(and(eq(posts.authorId, authorId), eq(posts.published, true)))
+      .orderBy(desc(views), desc(posts.publishedAt))
+      .limit(limit);
+  }
+
+  // Sites sending the most readers to an author's posts (or one of them) within a range
+  static async getTopReferrers(authorId: number, range: AnalyticsRange, postId?: number, limit = 10) {
+    const views = sql<number>`SUM(${postReferrersDaily.views})::int`;
+
+    return await db
+      .select({
+        host: postReferrersDaily.referrerHost,
+        views,
+      })
+      .from(postReferrersDaily)
+      .where(and(
+        inArray(postReferrersDaily.postId, authorPostIds(authorId, postId)),
+        between(postReferrersDaily.day, range.from, range.to)
+      ))
+      .groupBy(postReferrersDaily.referrerHost)
+      .orderBy(desc(views))
+      .limit(limit);
+  }
 }
 
 // Database maintenance utilities
@@ -0,0 +1,130 @@
+/**
+ * Line diff used by the post revision history.
+ * Plain LCS over lines - posts are small enough that the quadratic table is cheap,
+ * and common leading/trailing lines are trimmed before building it.
+ */
+
+export type DiffLineType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// One row of a side-by-side view; a null cell means the line only exists on the other side
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Beyond this many table cells we skip the LCS and show a full replace
+const MAX_LCS_CELLS = 4_000_000;
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+/** Turn editor HTML into readable text lines, one per paragraph, heading or list item. */
+export const htmlToLines = (html: string | null | undefined): string[] =>
+  (html || "")
+    .replace(/<br\s*\/?>|<\/(p|h[1-6]|li|blockquote|pre|div)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => ENTITIES[entity] ?? entity)
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/** Diff two lists of lines into equal/added/removed operations, in order. */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  // Trim the common prefix and suffix - most edits touch a small part of a post
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const head: DiffLine[] = before.slice(0, start).map((text) => ({ type: "equal", text }));
+  const tail: DiffLine[] = before.slice(endBefore).map((text) => ({ type: "equal", text }));
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...a.map((text): DiffLine => ({ type: "removed", text })),
+      ...b.map((text): DiffLine => ({ type: "added", text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..], stored flat
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1]! + 1
+        : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: "equal", text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!) {
+      middle.push({ type: "removed", text: a[i]! });
+      i++;
+    } else {
+      middle.push({ type: "added", text: b[j]! });
+      j++;
+    }
+  }
+  while (i < a.length) middle.push({ type: "removed", text: a[i++]! });
+  while (j < b.length) middle.push({ type: "added", text: b[j++]! });
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Lay a diff out in two columns
+ * Runs of removed lines are paired with the added lines that follow them, so changed lines sit side by side
+ */
+export function toSideBySide(diff: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < diff.length) {
+    const line = diff[index]!;
+
+    if (line.type === "equal") {
+      rows.push({ left: line, right: line });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < diff.length && diff[index]!.type === "removed") removed.push(diff[index++]!);
+    while (index < diff.length && diff[index]!.type === "added") added.push(diff[index++]!);
+
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row] ?? null, right: added[row] ?? null });
+    }
+  }
+
+  return rows;
+}
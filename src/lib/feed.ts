@@ -0,0 +1,112 @@
+/**
+ * RSS 2.0 and Atom 1.0 rendering.
+ * Pure string building - the route handlers load posts and pick the format.
+ */
+
+import { escapeHtml } from "@/lib/utils";
+
+export type FeedFormat = "rss" | "atom";
+
+export interface FeedItem {
+  title: string;
+  url: string;
+  summary: string; // Plain-text excerpt
+  contentHtml?: string; // Full post HTML, only in full-content feeds
+  author: string;
+  categories: string[];
+  publishedAt: Date;
+  updatedAt: Date;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  url: string; // HTML page the feed mirrors
+  feedUrl: string; // The feed's own URL
+  updatedAt: Date;
+  items: FeedItem[];
+}
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+};
+
+// Characters XML 1.0 doesn't allow at all, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+const xml = (text: string): string => escapeHtml(text.replace(INVALID_XML_CHARS, ""));
+
+// CDATA can't contain its own terminator, so split it across two sections
+const cdata = (text: string): string =>
+  `<![CDATA[${text.replace(INVALID_XML_CHARS, "").replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+/** Render a feed as RSS 2.0, with full content in content:encoded when present. */
+export function renderRss(feed: Feed): string {
+  const items = feed.items.map((item) => [
+    "    <item>",
+    `      <title>${xml(item.title)}</title>`,
+    `      <link>${xml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${xml(item.url)}</guid>`,
+    `      <dc:creator>${xml(item.author)}</dc:creator>`,
+    `      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+    ...item.categories.map((category) => `      <category>${xml(category)}</category>`),
+    `      <description>${xml(item.summary)}</description>`,
+    ...(item.contentHtml ? [`      <content:encoded>${cdata(item.contentHtml)}</content:encoded>`] : []),
+    "    </item>",
+  ].join("\n"));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "  <channel>",
+    `    <title>${xml(feed.title)}</title>`,
+    `    <link>${xml(feed.url)}</link>`,
+    `    <description>${xml(feed.description)}</description>`,
+    `    <atom:link href="${xml(feed.feedUrl)}" rel="self" type="application/rss+xml" />`,
+    "    <language>en</language>",
+    `    <lastBuildDate>${feed.updatedAt.toUTCString()}</lastBuildDate>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+/** Render a feed as Atom 1.0, with full content as escaped HTML when present. */
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items.map((item) => [
+    "  <entry>",
+    `    <title>${xml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${xml(item.url)}" />`,
+    `    <id>${xml(item.url)}</id>`,
+    `    <published>${item.publishedAt.toISOString()}</published>`,
+    `    <updated>${item.updatedAt.toISOString()}</updated>`,
+    `    <author><name>${xml(item.author)}</name></author>`,
+    ...item.categories.map((category) => `    <category term="${xml(category)}" />`),
+    `    <summary type="text">${xml(item.summary)}</summary>`,
+    ...(item.contentHtml ? [`    <content type="html">${xml(item.contentHtml)}</content>`] : []),
+    "  </entry>",
+  ].join("\n"));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${xml(feed.title)}</title>`,
+    `  <subtitle>${xml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${xml(feed.url)}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${xml(feed.feedUrl)}" />`,
+    `  <id>${xml(feed.feedUrl)}</id>`,
+    `  <updated>${feed.updatedAt.toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+/** Map a route segment like `rss.xml` or `atom.xml` to a format, or null when unknown. */
+export const parseFeedFormat = (segment: string): FeedFormat | null => {
+  if (segment === "rss.xml") return "rss";
+  if (segment === "atom.xml") return "atom";
+  return null;
+};
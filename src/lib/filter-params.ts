@@ -0,0 +1,93 @@
+/**
+ * Posts listing filters as URL search params, so a filtered view can be bookmarked and shared.
+ * Only values that differ from the defaults are written, which keeps links short.
+ * Parsing is forgiving: unknown or malformed params fall back to the default.
+ */
+
+import { DEFAULT_LISTING_FILTERS, type ListingFilters } from "@/lib/post-listing";
+import type { PostSortField } from "@/lib/validations";
+
+// Every sort field, spelled out so the type checker notices when one is added
+const SORT_FIELDS: Record<PostSortField, true> = {
+  createdAt: true,
+  updatedAt: true,
+  title: true,
+  viewCount: true,
+  relevance: true,
+};
+
+const FILTER_PARAM_NAMES = ["q", "category", "tags", "match", "published", "author", "from", "to", "sort", "order"];
+
+/** Local YYYY-MM-DD for a date, as used by date inputs and the from/to params. */
+export const toDateParam = (date: Date | null): string =>
+  date
+    ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+    : "";
+
+/**
+ * Parse a local YYYY-MM-DD date
+ * @param endOfDay - Return the last millisecond of the day, for the end of a range
+ */
+export const fromDateParam = (value: string | null, endOfDay = false): Date | null => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number) as [number, number, number];
+  const date = endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999) : new Date(year, month - 1, day);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const parseId = (value: string | null): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+/** Search params for a set of filters, omitting defaults. */
+export function filtersToSearchParams(filters: ListingFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.searchQuery) params.set("q", filters.searchQuery);
+  if (filters.selectedCategoryId) params.set("category", String(filters.selectedCategoryId));
+  if (filters.selectedTagIds.length > 0) params.set("tags", filters.selectedTagIds.join(","));
+  if (filters.tagMatch !== DEFAULT_LISTING_FILTERS.tagMatch) params.set("match", filters.tagMatch);
+  if (filters.showPublishedOnly) params.set("published", "1");
+  if (filters.authorId) params.set("author", String(filters.authorId));
+  if (filters.dateRange.from) params.set("from", toDateParam(filters.dateRange.from));
+  if (filters.dateRange.to) params.set("to", toDateParam(filters.dateRange.to));
+  if (filters.sortBy !== DEFAULT_LISTING_FILTERS.sortBy) params.set("sort", filters.sortBy);
+  if (filters.sortOrder !== DEFAULT_LISTING_FILTERS.sortOrder) params.set("order", filters.sortOrder);
+
+  return params;
+}
+
+/** Filters described by search params; anything missing or invalid gets its default. */
+export function filtersFromSearchParams(params: URLSearchParams): ListingFilters {
+  const sort = params.get("sort");
+  const tagIds = (params.get("tags") ?? "")
+    .split(",")
+    .map(parseId)
+    .filter((id): id is number => id !== null);
+
+  return {
+    searchQuery: params.get("q")?.slice(0, 200) ?? "",
+    selectedCategoryId: parseId(params.get("category")),
+    selectedTagIds: Array.from(new Set(tagIds)).slice(0, 20),
+    tagMatch: params.get("match") === "all" ? "all" : "any",
+    showPublishedOnly: params.get("published") === "1",
+    authorId: parseId(params.get("author")),
+    dateRange: {
+      from: fromDateParam(params.get("from")),
+      to: fromDateParam(params.get("to"), true),
+    },
+    sortBy: sort && sort in SORT_FIELDS ? (sort as PostSortField) : DEFAULT_LISTING_FILTERS.sortBy,
+    sortOrder: params.get("order") === "asc" ? "asc" : params.get("order") === "desc" ? "desc" : DEFAULT_LISTING_FILTERS.sortOrder,
+  };
+}
+
+/** True when the params carry any listing filter. */
+export const hasFilterParams = (params: URLSearchParams): boolean =>
+  FILTER_PARAM_NAMES.some((name) => params.has(name));
+
+/** Query string for a set of filters, without the leading "?" (empty for the defaults). */
+export const filtersToQueryString = (filters: ListingFilters): string =>
+  filtersToSearchParams(filters).toString();
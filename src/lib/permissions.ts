@@ -0,0 +1,30 @@
+/**
+ * Role and ownership checks shared by the API and the UI.
+ * Kept free of server imports so client components can use it to hide actions.
+ */
+
+import type { UserRole } from "@/lib/schema";
+
+// Higher number = more privileges; each role includes everything below it
+const roleLevels: Record<UserRole, number> = {
+  reader: 0,
+  author: 1,
+  editor: 2,
+  admin: 3,
+};
+
+/** Minimal user shape needed for permission checks. */
+export interface PermissionSubject {
+  id: number;
+  role: UserRole;
+}
+
+/** True when `user` holds `role` or a more privileged one. */
+export const hasRole = (user: PermissionSubject | null | undefined, role: UserRole): boolean =>
+  !!user && roleLevels[user.role] >= roleLevels[role];
+
+/** Authors may manage their own posts; editors and admins may manage any post. */
+export const canManagePost = (
+  user: PermissionSubject | null | undefined,
+  post: { authorId?: number | null }
+): boolean => !!user && (post.authorId === user.id || hasRole(user, "editor"));
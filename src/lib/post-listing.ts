@@ -0,0 +1,80 @@
+/**
+ * Query inputs for the /posts listing.
+ * Shared by the server page (prefetch) and the client listing so both build the
+ * same query keys - otherwise the hydrated data would be ignored and refetched.
+ */
+
+import type { z } from "zod";
+import type { postFiltersSchema, PostSortField } from "@/lib/validations";
+
+export const POSTS_PER_PAGE = 12;
+
+// Most used tags, offered as filter chips
+export const FILTER_TAGS_INPUT = {
+  sortBy: "usageCount",
+  sortOrder: "desc",
+  limit: 30,
+} as const;
+
+// The filter values behind a listing - the filter store holds these plus UI state
+export interface ListingFilters {
+  searchQuery: string;
+  selectedCategoryId: number | null;
+  selectedTagIds: number[];
+  tagMatch: "any" | "all";
+  showPublishedOnly: boolean;
+  authorId: number | null;
+  dateRange: { from: Date | null; to: Date | null };
+  sortBy: PostSortField;
+  sortOrder: "asc" | "desc";
+}
+
+// Filter store defaults - also what the server prefetches, before saved filters load on the client
+export const DEFAULT_LISTING_FILTERS: ListingFilters = {
+  searchQuery: "",
+  selectedCategoryId: null,
+  selectedTagIds: [],
+  tagMatch: "any",
+  showPublishedOnly: false,
+  authorId: null,
+  dateRange: { from: null, to: null },
+  sortBy: "relevance", // Ranks search results, and lists newest first while there's no search
+  sortOrder: "desc",
+};
+
+/** post.getAll input for the current filters; pages after the first add their cursor to it. */
+export const postListingInput = (filters: ListingFilters): Omit<z.input<typeof postFiltersSchema>, "cursor"> => ({
+  search: filters.searchQuery || undefined,
+  categoryId: filters.selectedCategoryId || undefined,
+  tagIds: filters.selectedTagIds.length > 0 ? filters.selectedTagIds : undefined,
+  tagMatch: filters.tagMatch,
+  published: filters.showPublishedOnly || undefined,
+  authorId: filters.authorId || undefined,
+  createdFrom: filters.dateRange.from ?? undefined,
+  createdTo: filters.dateRange.to ?? undefined,
+  sortBy: filters.sortBy,
+  sortOrder: filters.sortOrder,
+  limit: POSTS_PER_PAGE,
+});
+
+// What a landing page or feed lists its published posts by
+export type ListingScope = { categoryId: number } | { tagId: number } | { authorId: number } | { following: true };
+
+const scopeFilter = (scope: ListingScope) => {
+  if ("categoryId" in scope) return { categoryId: scope.categoryId };
+  if ("tagId" in scope) return { tagIds: [scope.tagId] };
+  if ("authorId" in scope) return { authorId: scope.authorId };
+  return { following: true };
+};
+
+/** post.getAll input for a category, tag or author page, or the following feed: published posts, newest first. */
+export const scopedListingInput = (scope: ListingScope): Omit<z.input<typeof postFiltersSchema>, "cursor"> => ({
+  ...scopeFilter(scope),
+  published: true,
+  sortBy: "createdAt",
+  sortOrder: "desc",
+  limit: POSTS_PER_PAGE,
+});
+
+// The home feed's "Latest" tab: every published post, newest first
+export const LATEST_POSTS_INPUT = postListingInput({ ...DEFAULT_LISTING_FILTERS, showPublishedOnly: true });
@@ -15,19 +15,54 @@ import {
   uniqueIndex,
   foreignKey,
   check,
-  numeric
+  numeric,
+  jsonb,
+  date,
+  customType
 } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
+import type { EditorDraft } from "@/types";
+
+// Postgres tsvector column type (drizzle has no built-in for it)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// What a post_views row records: opening the post, or reading it to the end
+export const postViewKinds = ["view", "read"] as const;
+export type PostViewKind = typeof postViewKinds[number];
+
+// Roles a user can hold, from least to most privileged
+export const userRoles = ["reader", "author", "editor", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
+// Profile links an author can show on their page, each a full URL
+export const socialLinkKeys = ["website", "twitter", "github", "linkedin", "mastodon"] as const;
+export type SocialLinks = Partial<Record<typeof socialLinkKeys[number], string>>;
+
+// Reactions a reader can leave on a post, in the order they're shown
+export const reactionTypes = ["like", "love", "celebrate", "insightful", "funny"] as const;
+export type ReactionType = typeof reactionTypes[number];
+
+// What a notification is about: a comment on the recipient's post, a reply to their comment,
+// a new follower, or a new post from an author or tag they follow
+export const notificationTypes = ["comment", "reply", "follow", "post_published"] as const;
+export type NotificationType = typeof notificationTypes[number];
 
 // User accounts table - stores all registered users
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
+  clerkId: varchar("clerk_id", { length: 64 }), // Links the row to a Clerk identity
   username: varchar("username", { length: 50 }).notNull(),
   email: varchar("email", { length: 320 }).notNull(),
   firstName: varchar("first_name", { length: 50 }),
   lastName: varchar("last_name", { length: 50 }),
   bio: text("bio"),
   avatar: text("avatar_url"),
+  socialLinks: jsonb("social_links").$type<SocialLinks>().default({}).notNull(),
+  role: varchar("role", { length: 20 }).$type<UserRole>().default("author").notNull(),
   isActive: boolean("is_active").default(true).notNull(),
   emailVerified: boolean("email_verified").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -36,14 +71,17 @@ export const users = pgTable("users", {
   // Make sure usernames and emails are unique
   usernameIdx: uniqueIndex("users_username_idx").on(table.username),
   emailIdx: uniqueIndex("users_email_idx").on(table.email),
+  clerkIdIdx: uniqueIndex("users_clerk_id_idx").on(table.clerkId),
   
   // Indexes to speed up common queries
   activeUsersIdx: index("users_active_idx").on(table.isActive),
+  roleIdx: index("users_role_idx").on(table.role),
   createdAtIdx: index("users_created_at_idx").on(table.createdAt),
   
   // Validation at database level
   usernameLength: check("username_min_length", sql`length(${table.username}) >= 3`),
   emailFormat: check("email_format", sql`${table.email} ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}$'`),
+  roleValid: check("user_role_valid", sql`${table.role} IN ('reader', 'author', 'editor', 'admin')`),
 }));
 
 // Blog posts table - the main content
@@ -57,12 +95,18 @@ export const posts = pgTable("posts", {
   published: boolean("published").default(false).notNull(), // Draft vs published
   featured: boolean("featured").default(false).notNull(), // Highlight important posts
   viewCount: integer("view_count").default(0).notNull(),
+  autoApproveComments: boolean("auto_approve_comments").default(false).notNull(), // Skip moderation for trusted commenters
   readingTime: integer("reading_time_minutes").default(1),
   seoTitle: varchar("seo_title", { length: 60 }), // For better Google results
   seoDescription: varchar("seo_description", { length: 160 }),
   publishedAt: timestamp("published_at"),
+  scheduledAt: timestamp("scheduled_at"), // Future publish time; set only while the post is unpublished
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  // Full-text search document: title ranks above excerpt, excerpt above body text (HTML tags stripped)
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') || setweight(to_tsvector('english', regexp_replace(coalesce("content", ''), '<[^>]*>', ' ', 'g')), 'C')`
+  ),
 }, (table) => ({
   // Link posts to their authors, delete posts if user is deleted
   authorFk: foreignKey({
@@ -79,17 +123,22 @@ export const posts = pgTable("posts", {
   publishedIdx: index("posts_published_idx").on(table.published),
   featuredIdx: index("posts_featured_idx").on(table.featured),
   publishedAtIdx: index("posts_published_at_idx").on(table.publishedAt),
+  scheduledAtIdx: index("posts_scheduled_at_idx").on(table.scheduledAt),
   createdAtIdx: index("posts_created_at_idx").on(table.createdAt),
   
   // Combo index for "show recent published posts" queries
   publishedCreatedIdx: index("posts_published_created_idx").on(table.published, table.createdAt),
   authorPublishedIdx: index("posts_author_published_idx").on(table.authorId, table.published),
   
+  // GIN index for full-text search
+  searchIdx: index("posts_search_idx").using("gin", table.searchVector),
+  
   // Check constraints
   titleLength: check("title_min_length", sql`length(${table.title}) >= 5`),
   slugLength: check("slug_min_length", sql`length(${table.slug}) >= 3`),
   viewCountNonNegative: check("view_count_non_negative", sql`${table.viewCount} >= 0`),
   readingTimePositive: check("reading_time_positive", sql`${table.readingTime} > 0`),
+  scheduledOnlyWhenUnpublished: check("scheduled_only_when_unpublished", sql`${table.scheduledAt} IS NULL OR ${table.published} = false`),
 }));
 
 // Categories table with enhanced fields and hierarchy support
@@ -243,10 +292,326 @@ export const comments = pgTable("comments", {
   likeCountNonNegative: check("comment_like_count_non_negative", sql`${table.likeCount} >= 0`),
 }));
 
+// Comment likes - one like per user per comment, likeCount on comments is kept in sync
+export const commentLikes = pgTable("comment_likes", {
+  id: serial("id").primaryKey(),
+  commentId: integer("comment_id").notNull(),
+  userId: integer("user_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  commentFk: foreignKey({
+    columns: [table.commentId],
+    foreignColumns: [comments.id],
+    name: "comment_likes_comment_fk"
+  }).onDelete("cascade"),
+  
+  userFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "comment_likes_user_fk"
+  }).onDelete("cascade"),
+  
+  commentUserIdx: uniqueIndex("comment_likes_unique_idx").on(table.commentId, table.userId),
+  userIdx: index("comment_likes_user_idx").on(table.userId),
+}));
+
+// Post reactions - one of each reaction type per user per post
+export const postReactions = pgTable("post_reactions", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").notNull(),
+  userId: integer("user_id").notNull(),
+  type: varchar("type", { length: 20 }).$type<ReactionType>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  postFk: foreignKey({
+    columns: [table.postId],
+    foreignColumns: [posts.id],
+    name: "post_reactions_post_fk"
+  }).onDelete("cascade"),
+  
+  userFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "post_reactions_user_fk"
+  }).onDelete("cascade"),
+  
+  postUserTypeIdx: uniqueIndex("post_reactions_unique_idx").on(table.postId, table.userId, table.type),
+  postCreatedAtIdx: index("post_reactions_post_created_at_idx").on(table.postId, table.createdAt),
+  userIdx: index("post_reactions_user_idx").on(table.userId),
+  
+  typeValid: check("post_reaction_type_valid", sql`${table.type} IN ('like', 'love', 'celebrate', 'insightful', 'funny')`),
+}));
+
+// Post revisions - a snapshot of the post written on every update
+export const postRevisions = pgTable("post_revisions", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").notNull(),
+  editorId: integer("editor_id"), // Who saved this version; kept if the user is deleted
+  revisionNumber: integer("revision_number").notNull(), // 1, 2, 3... per post
+  title: varchar("title", { length: 200 }).notNull(),
+  content: text("content"),
+  excerpt: varchar("excerpt", { length: 500 }),
+  note: varchar("note", { length: 200 }), // e.g. "Restored from revision 3"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  postFk: foreignKey({
+    columns: [table.postId],
+    foreignColumns: [posts.id],
+    name: "post_revisions_post_fk"
+  }).onDelete("cascade"),
+  
+  editorFk: foreignKey({
+    columns: [table.editorId],
+    foreignColumns: [users.id],
+    name: "post_revisions_editor_fk"
+  }).onDelete("set null"),
+  
+  postRevisionIdx: uniqueIndex("post_revisions_post_number_idx").on(table.postId, table.revisionNumber),
+  editorIdx: index("post_revisions_editor_idx").on(table.editorId),
+}));
+
+// Autosaved editor drafts - one per user per post, postId is null for a post not created yet
+export const postDrafts = pgTable("post_drafts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  postId: integer("post_id"),
+  data: jsonb("data").$type<EditorDraft>().notNull(), // EditorDraft from the editor store
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "post_drafts_user_fk"
+  }).onDelete("cascade"),
+  
+  postFk: foreignKey({
+    columns: [table.postId],
+    foreignColumns: [posts.id],
+    name: "post_drafts_post_fk"
+  }).onDelete("cascade"),
+  
+  // NULL post ids are distinct in a normal unique index, so new-post drafts get their own partial index
+  userPostIdx: uniqueIndex("post_drafts_user_post_idx").on(table.userId, table.postId),
+  userNewPostIdx: uniqueIndex("post_drafts_user_new_post_idx").on(table.userId).where(sql`post_id IS NULL`),
+}));
+
+// Deduplicated post views and reads - one row per visitor per post per kind per window
+// Folded into posts.viewCount and the daily rollups below in batches
+export const postViews = pgTable("post_views", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").notNull(),
+  visitorHash: varchar("visitor_hash", { length: 64 }).notNull(), // SHA-256 of the visitor, never the raw IP
+  kind: varchar("kind", { length: 10 }).$type<PostViewKind>().default("view").notNull(),
+  referrerHost: varchar("referrer_host", { length: 255 }), // External site the reader came from, null for direct or internal
+  windowStart: timestamp("window_start").notNull(), // Start of the dedupe window this view falls in
+  counted: boolean("counted").default(false).notNull(), // Already added to posts.viewCount and the rollups
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  postFk: foreignKey({
+    columns: [table.postId],
+    foreignColumns: [posts.id],
+    name: "post_views_post_fk"
+  }).onDelete("cascade"),
+  
+  // A repeat view in the same window hits this and is dropped
+  visitorWindowIdx: uniqueIndex("post_views_visitor_window_idx").on(table.postId, table.visitorHash, table.kind, table.windowStart),
+  pendingIdx: index("post_views_pending_idx").on(table.postId).where(sql`counted = false`),
+  windowIdx: index("post_views_window_idx").on(table.windowStart),
+  
+  kindValid: check("post_view_kind_valid", sql`${table.kind} IN ('view', 'read')`),
+}));
+
+// Daily view and read totals per post, for analytics over time
+export const postViewsDaily = pgTable("post_views_daily", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").notNull(),
+  day: date("day", { mode: "string" }).notNull(), // UTC day, YYYY-MM-DD
+  views: integer("views").default(0).notNull(),
+  reads: integer("reads").default(0).notNull(),
+}, (table) => ({
+  postFk: foreignKey({
+    columns: [table.postId],
+    foreignColumns: [posts.id],
+    name: "post_views_daily_post_fk"
+  }).onDelete("cascade"),
+  
+  postDayIdx: uniqueIndex("post_views_daily_post_day_idx").on(table.postId, table.day),
+  dayIdx: index("post_views_daily_day_idx").on(table.day),
+}));
+
+// Daily views per post per referring site
+export const postReferrersDaily = pgTable("post_referrers_daily", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").notNull(),
+  day: date("day", { mode: "string" }).notNull(), // UTC day, YYYY-MM-DD
+  referrerHost: varchar("referrer_host", { length: 255 }).notNull(),
+  views: integer("views").default(0).notNull(),
+}, (table) => ({
+  postFk: foreignKey({
+    columns: [table.postId],
+    foreignColumns: [posts.id],
+    name: "post_referrers_daily_post_fk"
+  }).onDelete("cascade"),
+  
+  postDayReferrerIdx: uniqueIndex("post_referrers_daily_post_day_referrer_idx").on(table.postId, table.day, table.referrerHost),
+  dayIdx: index("post_referrers_daily_day_idx").on(table.day),
+}));
+
+// Named post listing filters a user can reopen, stored as the listing's URL query string
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  query: varchar("query", { length: 2000 }).notNull(), // e.g. "q=react&sort=viewCount", empty for no filters
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "saved_searches_user_fk"
+  }).onDelete("cascade"),
+  
+  // Saving under an existing name replaces that search
+  userNameIdx: uniqueIndex("saved_searches_user_name_idx").on(table.userId, table.name),
+  
+  nameLength: check("saved_search_name_min_length", sql`length(${table.name}) >= 1`),
+}));
+
+// Follows: a user following an author or a tag (exactly one of authorId / tagId is set)
+export const follows = pgTable("follows", {
+  id: serial("id").primaryKey(),
+  followerId: integer("follower_id").notNull(),
+  authorId: integer("author_id"),
+  tagId: integer("tag_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  followerFk: foreignKey({
+    columns: [table.followerId],
+    foreignColumns: [users.id],
+    name: "follows_follower_fk"
+  }).onDelete("cascade"),
+  authorFk: foreignKey({
+    columns: [table.authorId],
+    foreignColumns: [users.id],
+    name: "follows_author_fk"
+  }).onDelete("cascade"),
+  tagFk: foreignKey({
+    columns: [table.tagId],
+    foreignColumns: [tags.id],
+    name: "follows_tag_fk"
+  }).onDelete("cascade"),
+  
+  // One follow per target; the null target column never conflicts
+  followerAuthorIdx: uniqueIndex("follows_follower_author_idx").on(table.followerId, table.authorId),
+  followerTagIdx: uniqueIndex("follows_follower_tag_idx").on(table.followerId, table.tagId),
+  
+  // Follower lists and counts
+  authorIdx: index("follows_author_idx").on(table.authorId, table.createdAt),
+  tagIdx: index("follows_tag_idx").on(table.tagId),
+  
+  oneTarget: check("follows_one_target", sql`(${table.authorId} IS NULL) <> (${table.tagId} IS NULL)`),
+  notSelf: check("follows_not_self", sql`${table.authorId} IS NULL OR ${table.authorId} <> ${table.followerId}`),
+}));
+
+// Named reading lists a user sorts their bookmarks into
+export const readingLists = pgTable("reading_lists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "reading_lists_user_fk"
+  }).onDelete("cascade"),
+  
+  userNameIdx: uniqueIndex("reading_lists_user_name_idx").on(table.userId, table.name),
+  
+  nameLength: check("reading_list_name_min_length", sql`length(${table.name}) >= 1`),
+}));
+
+// Bookmarks - one per user per post, optionally filed in one of the user's reading lists
+export const bookmarks = pgTable("bookmarks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  postId: integer("post_id").notNull(),
+  listId: integer("list_id"), // Null when not filed in a list; deleting the list unfiles it
+  readAt: timestamp("read_at"), // Null while unread
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "bookmarks_user_fk"
+  }).onDelete("cascade"),
+  postFk: foreignKey({
+    columns: [table.postId],
+    foreignColumns: [posts.id],
+    name: "bookmarks_post_fk"
+  }).onDelete("cascade"),
+  listFk: foreignKey({
+    columns: [table.listId],
+    foreignColumns: [readingLists.id],
+    name: "bookmarks_list_fk"
+  }).onDelete("set null"),
+  
+  userPostIdx: uniqueIndex("bookmarks_user_post_idx").on(table.userId, table.postId),
+  userCreatedAtIdx: index("bookmarks_user_created_at_idx").on(table.userId, table.createdAt),
+  listIdx: index("bookmarks_list_idx").on(table.listId),
+}));
+
+// In-app notifications - one row per recipient per event
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // Recipient
+  type: varchar("type", { length: 20 }).$type<NotificationType>().notNull(),
+  actorId: integer("actor_id"), // Who caused it; kept if the user is deleted
+  postId: integer("post_id"),
+  commentId: integer("comment_id"),
+  readAt: timestamp("read_at"), // Null while unread
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "notifications_user_fk"
+  }).onDelete("cascade"),
+  actorFk: foreignKey({
+    columns: [table.actorId],
+    foreignColumns: [users.id],
+    name: "notifications_actor_fk"
+  }).onDelete("set null"),
+  postFk: foreignKey({
+    columns: [table.postId],
+    foreignColumns: [posts.id],
+    name: "notifications_post_fk"
+  }).onDelete("cascade"),
+  commentFk: foreignKey({
+    columns: [table.commentId],
+    foreignColumns: [comments.id],
+    name: "notifications_comment_fk"
+  }).onDelete("cascade"),
+  
+  userCreatedAtIdx: index("notifications_user_created_at_idx").on(table.userId, table.createdAt),
+  // Unread counts for the bell
+  userUnreadIdx: index("notifications_user_unread_idx").on(table.userId).where(sql`read_at IS NULL`),
+}));
+
 // Relations with enhanced relationships
 export const usersRelations = relations(users, ({ many }) => ({
   posts: many(posts),
   comments: many(comments),
+  reactions: many(postReactions),
+  savedSearches: many(savedSearches),
+  readingLists: many(readingLists),
+  bookmarks: many(bookmarks),
+  notifications: many(notifications, { relationName: "notificationRecipient" }),
+  following: many(follows, { relationName: "follower" }),
+  followers: many(follows, { relationName: "followedAuthor" }),
 }));
 
 export const postsRelations = relations(posts, ({ one, many }) => ({
@@ -257,6 +622,13 @@ export const postsRelations = relations(posts, ({ one, many }) => ({
   postCategories: many(postCategories),
   postTags: many(postTags),
   comments: many(comments),
+  reactions: many(postReactions),
+  bookmarks: many(bookmarks),
+  revisions: many(postRevisions),
+  drafts: many(postDrafts),
+  views: many(postViews),
+  viewsDaily: many(postViewsDaily),
+  referrersDaily: many(postReferrersDaily),
 }));
 
 export const categoriesRelations = relations(categories, ({ one, many }) => ({
@@ -281,6 +653,7 @@ export const postCategoriesRelations = relations(postCategories, ({ one }) => ({
 
 export const tagsRelations = relations(tags, ({ many }) => ({
   postTags: many(postTags),
+  followers: many(follows),
 }));
 
 export const postTagsRelations = relations(postTags, ({ one }) => ({
@@ -308,6 +681,139 @@ export const commentsRelations = relations(comments, ({ one, many }) => ({
     references: [comments.id],
   }),
   replies: many(comments),
+  likes: many(commentLikes),
+}));
+
+export const commentLikesRelations = relations(commentLikes, ({ one }) => ({
+  comment: one(comments, {
+    fields: [commentLikes.commentId],
+    references: [comments.id],
+  }),
+  user: one(users, {
+    fields: [commentLikes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const postReactionsRelations = relations(postReactions, ({ one }) => ({
+  post: one(posts, {
+    fields: [postReactions.postId],
+    references: [posts.id],
+  }),
+  user: one(users, {
+    fields: [postReactions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const postRevisionsRelations = relations(postRevisions, ({ one }) => ({
+  post: one(posts, {
+    fields: [postRevisions.postId],
+    references: [posts.id],
+  }),
+  editor: one(users, {
+    fields: [postRevisions.editorId],
+    references: [users.id],
+  }),
+}));
+
+export const postDraftsRelations = relations(postDrafts, ({ one }) => ({
+  user: one(users, {
+    fields: [postDrafts.userId],
+    references: [users.id],
+  }),
+  post: one(posts, {
+    fields: [postDrafts.postId],
+    references: [posts.id],
+  }),
+}));
+
+export const postViewsRelations = relations(postViews, ({ one }) => ({
+  post: one(posts, {
+    fields: [postViews.postId],
+    references: [posts.id],
+  }),
+}));
+
+export const postViewsDailyRelations = relations(postViewsDaily, ({ one }) => ({
+  post: one(posts, {
+    fields: [postViewsDaily.postId],
+    references: [posts.id],
+  }),
+}));
+
+export const postReferrersDailyRelations = relations(postReferrersDaily, ({ one }) => ({
+  post: one(posts, {
+    fields: [postReferrersDaily.postId],
+    references: [posts.id],
+  }),
+}));
+
+export const savedSearchesRelations = relations(savedSearches, ({ one }) => ({
+  user: one(users, {
+    fields: [savedSearches.userId],
+    references: [users.id],
+  }),
+}));
+
+export const followsRelations = relations(follows, ({ one }) => ({
+  follower: one(users, {
+    fields: [follows.followerId],
+    references: [users.id],
+    relationName: "follower",
+  }),
+  author: one(users, {
+    fields: [follows.authorId],
+    references: [users.id],
+    relationName: "followedAuthor",
+  }),
+  tag: one(tags, {
+    fields: [follows.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const readingListsRelations = relations(readingLists, ({ one, many }) => ({
+  user: one(users, {
+    fields: [readingLists.userId],
+    references: [users.id],
+  }),
+  bookmarks: many(bookmarks),
+}));
+
+export const bookmarksRelations = relations(bookmarks, ({ one }) => ({
+  user: one(users, {
+    fields: [bookmarks.userId],
+    references: [users.id],
+  }),
+  post: one(posts, {
+    fields: [bookmarks.postId],
+    references: [posts.id],
+  }),
+  list: one(readingLists, {
+    fields: [bookmarks.listId],
+    references: [readingLists.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+    relationName: "notificationRecipient",
+  }),
+  actor: one(users, {
+    fields: [notifications.actorId],
+    references: [users.id],
+  }),
+  post: one(posts, {
+    fields: [notifications.postId],
+    references: [posts.id],
+  }),
+  comment: one(comments, {
+    fields: [notifications.commentId],
+    references: [comments.id],
+  }),
 }));
 
 // Type exports with comprehensive type safety
@@ -325,6 +831,30 @@ export type PostTag = typeof postTags.$inferSelect;
 export type NewPostTag = typeof postTags.$inferInsert;
 export type Comment = typeof comments.$inferSelect;
 export type NewComment = typeof comments.$inferInsert;
+export type CommentLike = typeof commentLikes.$inferSelect;
+export type NewCommentLike = typeof commentLikes.$inferInsert;
+export type PostReaction = typeof postReactions.$inferSelect;
+export type NewPostReaction = typeof postReactions.$inferInsert;
+export type PostRevision = typeof postRevisions.$inferSelect;
+export type NewPostRevision = typeof postRevisions.$inferInsert;
+export type PostDraft = typeof postDrafts.$inferSelect;
+export type NewPostDraft = typeof postDrafts.$inferInsert;
+export type PostView = typeof postViews.$inferSelect;
+export type NewPostView = typeof postViews.$inferInsert;
+export type PostViewDaily = typeof postViewsDaily.$inferSelect;
+export type NewPostViewDaily = typeof postViewsDaily.$inferInsert;
+export type PostReferrerDaily = typeof postReferrersDaily.$inferSelect;
+export type NewPostReferrerDaily = typeof postReferrersDaily.$inferInsert;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type NewSavedSearch = typeof savedSearches.$inferInsert;
+export type Follow = typeof follows.$inferSelect;
+export type NewFollow = typeof follows.$inferInsert;
+export type ReadingList = typeof readingLists.$inferSelect;
+export type NewReadingList = typeof readingLists.$inferInsert;
+export type Bookmark = typeof bookmarks.$inferSelect;
+export type NewBookmark = typeof bookmarks.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
 
 // Composite types for complex queries
 export type PostWithDetails = Post & {
@@ -334,9 +864,9 @@ export type PostWithDetails = Post & {
   comments?: Comment[];
 };
 
+// A node of the category tree; the parent is identified by parentId
 export type CategoryWithHierarchy = Category & {
-  parent?: Category;
-  children: Category[];
+  children: CategoryWithHierarchy[];
   postCount: number;
 };
 
@@ -0,0 +1,106 @@
+/**
+ * Search-engine and social-card descriptions of a post.
+ * Builds Next.js Metadata (canonical URL, Open Graph, Twitter card) and schema.org BlogPosting JSON-LD.
+ */
+
+import type { Metadata } from "next";
+import { SITE_NAME, absoluteUrl, authorPath, postPath } from "@/lib/site";
+import { calculatePostStats, extractPreview } from "@/lib/utils";
+
+// Search engines show roughly this much of a description
+const DESCRIPTION_LENGTH = 160;
+
+export interface PostSeo {
+  title: string;
+  slug: string;
+  content: string | null;
+  excerpt: string | null;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  publishedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  author: { username: string; firstName: string | null; lastName: string | null };
+  categories: string[];
+  tags: string[];
+}
+
+const authorName = (author: PostSeo["author"]): string =>
+  [author.firstName, author.lastName].filter(Boolean).join(" ") || author.username;
+
+// SEO description, else the excerpt, else the start of the post
+const describe = (post: PostSeo): string =>
+  post.seoDescription || post.excerpt || extractPreview(post.content ?? "", DESCRIPTION_LENGTH);
+
+// First image in the post body, as an absolute URL
+const firstImage = (html: string | null): string | undefined => {
+  const src = /<img[^>]+src=["']([^"']+)["']/i.exec(html ?? "")?.[1];
+  if (!src || src.startsWith("data:")) return undefined;
+  return /^https?:\/\//i.test(src) ? src : absoluteUrl(src);
+};
+
+/** Page metadata for a published post. */
+export function buildPostMetadata(post: PostSeo): Metadata {
+  const title = post.seoTitle || post.title;
+  const description = describe(post);
+  const url = absoluteUrl(postPath(post.slug));
+  const image = firstImage(post.content);
+
+  return {
+    title,
+    description,
+    keywords: post.tags.length > 0 ? post.tags : undefined,
+    authors: [{ name: authorName(post.author), url: absoluteUrl(authorPath(post.author.username)) }],
+    alternates: { canonical: url },
+    openGraph: {
+      type: "article",
+      url,
+      title,
+      description,
+      siteName: SITE_NAME,
+      publishedTime: (post.publishedAt ?? post.createdAt).toISOString(),
+      modifiedTime: post.updatedAt.toISOString(),
+      authors: [authorName(post.author)],
+      section: post.categories[0],
+      tags: post.tags,
+      ...(image && { images: [{ url: image }] }),
+    },
+    twitter: {
+      card: image ? "summary_large_image" : "summary",
+      title,
+      description,
+      ...(image && { images: [image] }),
+    },
+  };
+}
+
+/** schema.org BlogPosting structured data for a published post. */
+export function buildBlogPostingJsonLd(post: PostSeo) {
+  const url = absoluteUrl(postPath(post.slug));
+  const image = firstImage(post.content);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "BlogPosting",
+    headline: post.title,
+    description: describe(post),
+    url,
+    mainEntityOfPage: { "@type": "WebPage", "@id": url },
+    datePublished: (post.publishedAt ?? post.createdAt).toISOString(),
+    dateModified: post.updatedAt.toISOString(),
+    author: {
+      "@type": "Person",
+      name: authorName(post.author),
+      url: absoluteUrl(authorPath(post.author.username)),
+    },
+    publisher: { "@type": "Organization", name: SITE_NAME, url: absoluteUrl("/") },
+    ...(post.categories.length > 0 && { articleSection: post.categories }),
+    ...(post.tags.length > 0 && { keywords: post.tags.join(", ") }),
+    ...(image && { image }),
+    wordCount: calculatePostStats(post.content ?? "").wordCount,
+  };
+}
+
+/** Serialize JSON-LD for a <script> tag; escapes "<" so post text can't close the tag early. */
+export const serializeJsonLd = (data: object): string =>
+  JSON.stringify(data).replace(/</g, "\\u003c");
@@ -0,0 +1,24 @@
+/**
+ * Site-wide identity used wherever we need absolute URLs (feeds, sitemap, metadata).
+ * Set NEXT_PUBLIC_SITE_URL in production; Vercel preview URLs and localhost are fallbacks.
+ */
+
+export const SITE_NAME = "Full-Stack Blog Platform";
+export const SITE_DESCRIPTION = "A modern blogging platform built with Next.js 15, TypeScript, tRPC, and PostgreSQL";
+
+/** Public origin of the site, without a trailing slash. */
+export const getSiteUrl = (): string => {
+  if (process.env.NEXT_PUBLIC_SITE_URL) return process.env.NEXT_PUBLIC_SITE_URL.replace(/\/+$/, "");
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return `http://localhost:${process.env.PORT ?? 3000}`;
+};
+
+/** Turn a site path such as `/posts/hello` into an absolute URL. */
+export const absoluteUrl = (path = "/"): string =>
+  `${getSiteUrl()}${path.startsWith("/") ? path : `/${path}`}`;
+
+// Public page paths, shared by links, feeds and the sitemap
+export const postPath = (slug: string): string => `/posts/${slug}`;
+export const categoryPath = (slug: string): string => `/categories/${slug}`;
+export const tagPath = (slug: string): string => `/tags/${slug}`;
+export const authorPath = (username: string): string => `/authors/${username}`;
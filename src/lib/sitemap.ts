@@ -0,0 +1,46 @@
+/**
+ * sitemaps.org XML rendering - url sets and sitemap indexes.
+ * Pure string building; @/server/sitemap decides what goes in each file.
+ */
+
+import { escapeHtml } from "@/lib/utils";
+
+export interface SitemapEntry {
+  url: string; // Absolute URL
+  lastModified?: Date;
+}
+
+// The protocol caps each sitemap file at 50,000 URLs
+export const SITEMAP_URL_LIMIT = 50_000;
+
+export const SITEMAP_CONTENT_TYPE = "application/xml; charset=utf-8";
+
+const SITEMAP_NS = "http://www.sitemaps.org/schemas/sitemap/0.9";
+
+const renderEntry = (tag: "url" | "sitemap", entry: SitemapEntry): string =>
+  [
+    `  <${tag}>`,
+    `    <loc>${escapeHtml(entry.url)}</loc>`,
+    ...(entry.lastModified ? [`    <lastmod>${entry.lastModified.toISOString()}</lastmod>`] : []),
+    `  </${tag}>`,
+  ].join("\n");
+
+/** Render a single sitemap file listing page URLs. */
+export const renderUrlSet = (entries: SitemapEntry[]): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<urlset xmlns="${SITEMAP_NS}">`,
+    ...entries.map((entry) => renderEntry("url", entry)),
+    "</urlset>",
+    "",
+  ].join("\n");
+
+/** Render a sitemap index pointing at other sitemap files. */
+export const renderSitemapIndex = (sitemaps: SitemapEntry[]): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<sitemapindex xmlns="${SITEMAP_NS}">`,
+    ...sitemaps.map((sitemap) => renderEntry("sitemap", sitemap)),
+    "</sitemapindex>",
+    "",
+  ].join("\n");
@@ -43,6 +43,10 @@ export const capitalizeFirst = (text: string): string =>
 export const pluralize = (count: number, singular: string, plural?: string): string =>
   (count === 1 ? singular : plural ?? `${singular}s`);
 
+/** A user's full name, or their username when they haven't given one. */
+export const displayName = (user: { username: string; firstName: string | null; lastName: string | null }): string =>
+  [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username;
+
 // Date utilities ---------------------------------------------------------
 type DateInput = Date | string | number;
 
@@ -108,7 +112,26 @@ export const extractPreview = (content: string, maxLength = 300): string => {
   return `${truncated}...`;
 };
 
+// Markers the search API puts around matched words (see PostSearchMatch)
+export const SEARCH_HIGHLIGHT_START = "\u27E6";
+export const SEARCH_HIGHLIGHT_END = "\u27E7";
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
 export const highlightSearchTerm = (text: string, searchTerm?: string): string => {
+  // Search results arrive with matches already marked (stemmed words included)
+  if (text.includes(SEARCH_HIGHLIGHT_START)) {
+    return text
+      .split(SEARCH_HIGHLIGHT_START).join('<mark class="bg-yellow-200 px-1 rounded">')
+      .split(SEARCH_HIGHLIGHT_END).join("</mark>");
+  }
+
   if (!searchTerm) return text;
   // Escape RegExp special chars in searchTerm
   const escaped = searchTerm.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
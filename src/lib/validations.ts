@@ -4,13 +4,19 @@
  */
 
 import { z } from "zod";
+import { userRoles, postViewKinds, reactionTypes, type SocialLinks } from "@/lib/schema";
 
 // Reusable base schemas for common fields
 export const idSchema = z.number().int().positive();
+export const cursorSchema = z.string().max(500).nullish(); // Opaque keyset cursor from a previous page's nextCursor
 export const slugSchema = z.string().min(1).max(255).regex(/^[a-z0-9-]+$/, 'Invalid slug format');
 export const titleSchema = z.string().min(5, 'Title must be at least 5 characters').max(255, 'Title too long');
 export const contentSchema = z.string().min(1, 'Content is required');
 export const descriptionSchema = z.string().max(500, 'Description too long').optional();
+export const scheduledAtSchema = z.date().refine((date) => date > new Date(), 'Scheduled time must be in the future');
+// Optional search-engine overrides; blank means "fall back to the title / excerpt"
+export const seoTitleSchema = z.string().trim().max(60, 'SEO title must be 60 characters or less').transform((value) => value || null);
+export const seoDescriptionSchema = z.string().trim().max(160, 'SEO description must be 160 characters or less').transform((value) => value || null);
 
 /**
  * Post validation schemas
@@ -21,8 +27,12 @@ export const createPostSchema = z.object({
   title: titleSchema,
   content: contentSchema,
   published: z.boolean().default(false),
-  authorId: idSchema.optional(), // Will eventually come from auth
+  scheduledAt: scheduledAtSchema.nullable().optional(), // Publish automatically at this time
+  autoApproveComments: z.boolean().default(false),
+  seoTitle: seoTitleSchema.nullable().optional(),
+  seoDescription: seoDescriptionSchema.nullable().optional(),
   categoryIds: z.array(idSchema).optional().default([]),
+  tagIds: z.array(idSchema).max(20, 'A post can have at most 20 tags').optional().default([]),
 });
 
 // Updating an existing post
@@ -31,32 +41,125 @@ export const updatePostSchema = z.object({
   title: titleSchema.optional(),
   content: contentSchema.optional(),
   published: z.boolean().optional(),
+  scheduledAt: scheduledAtSchema.nullable().optional(), // null clears an existing schedule
+  autoApproveComments: z.boolean().optional(),
+  seoTitle: seoTitleSchema.nullable().optional(),
+  seoDescription: seoDescriptionSchema.nullable().optional(),
   categoryIds: z.array(idSchema).optional(),
+  tagIds: z.array(idSchema).max(20, 'A post can have at most 20 tags').optional(),
 });
 
 // Getting a post by its URL slug
 export const getPostBySlugSchema = z.string().min(1);
 
 // Filtering/searching posts
+export const postSortFields = ['createdAt', 'updatedAt', 'title', 'viewCount', 'relevance'] as const;
+export type PostSortField = typeof postSortFields[number];
+
 export const postFiltersSchema = z.object({
-  search: z.string().optional(),
+  search: z.string().max(200).optional(),
   categoryId: idSchema.optional(),
+  tagIds: z.array(idSchema).max(20).optional(),
+  tagMatch: z.enum(['any', 'all']).default('any'), // Match posts with any or all of tagIds
   published: z.boolean().optional(),
+  scheduled: z.boolean().optional(), // Only scheduled (true) or only unscheduled (false) posts
   authorId: idSchema.optional(),
+  following: z.boolean().optional(), // Only posts by authors, or with tags, the signed-in user follows
+  createdFrom: z.date().optional(), // Created at or after
+  createdTo: z.date().optional(), // Created at or before
+  sortBy: z.enum(postSortFields).default('createdAt'), // 'relevance' only applies while searching
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
   limit: z.number().int().min(1).max(100).default(10),
-  offset: z.number().int().min(0).default(0),
+  cursor: cursorSchema,
+}).refine(data => !data.createdFrom || !data.createdTo || data.createdFrom <= data.createdTo, {
+  message: 'Start date must be before end date',
+  path: ['createdTo'],
+});
+
+// Post revision history
+export const getRevisionsSchema = z.object({
+  postId: idSchema,
+  limit: z.number().int().min(1).max(100).default(50),
+});
+
+export const restoreRevisionSchema = z.object({
+  revisionId: idSchema,
+});
+
+// Server-side autosave (mirrors EditorDraft in @/types)
+export const editorDraftSchema = z.object({
+  title: z.string().max(255),
+  content: z.string().max(1_000_000, 'Draft is too large'),
+  excerpt: z.string().max(500),
+  slug: z.string().max(255),
+  selectedCategoryIds: z.array(idSchema).max(50),
+  selectedTagIds: z.array(idSchema).max(20),
+  published: z.boolean(),
+  featured: z.boolean(),
+  seoTitle: z.string().max(60),
+  seoDescription: z.string().max(160),
+  scheduledAt: z.date().nullable().optional(), // Not checked against now - a draft may outlive its schedule
+  autoApproveComments: z.boolean().optional(),
+  timestamp: z.date(),
+});
+
+export const draftTargetSchema = z.object({
+  postId: idSchema.nullable(), // null = draft for a post that hasn't been created yet
+});
+
+export const saveDraftSchema = draftTargetSchema.extend({
+  draft: editorDraftSchema,
+  baseUpdatedAt: z.date().nullable(), // updatedAt of the server draft this one was built on
+  force: z.boolean().default(false), // Overwrite even if the server draft is newer
+});
+
+// Counting a view (post opened) or read (reached the end) of a post
+export const recordViewSchema = z.object({
+  postId: idSchema,
+  kind: z.enum(postViewKinds).default('view'),
+  referrer: z.string().max(2048).optional(), // document.referrer, for views
+});
+
+// Toggling one of the signed-in user's reactions on a post
+export const toggleReactionSchema = z.object({
+  postId: idSchema,
+  type: z.enum(reactionTypes),
+});
+
+// Quick full-text search (search dropdown)
+export const searchPostsSchema = z.object({
+  query: z.string().trim().min(1, 'Search query is required').max(200),
+  limit: z.number().int().min(1).max(20).default(5),
 });
 
 // Category schemas
+export const categoryColorSchema = z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a hex code like #3b82f6');
+export const categoryIconSchema = z.string().trim().max(50, 'Icon too long').transform((value) => value || null); // Icon name or emoji
+
 export const createCategorySchema = z.object({
   name: z.string().min(1, 'Category name is required').max(100, 'Name too long'),
   description: descriptionSchema,
+  parentId: idSchema.nullable().optional(), // null/omitted = top-level category
+  color: categoryColorSchema.nullable().optional(),
+  icon: categoryIconSchema.nullable().optional(),
+  sortOrder: z.number().int().min(0).optional(), // Defaults to after the last sibling
 });
 
 export const updateCategorySchema = z.object({
   id: idSchema,
   name: z.string().min(1).max(100).optional(),
   description: descriptionSchema,
+  parentId: idSchema.nullable().optional(),
+  color: categoryColorSchema.nullable().optional(),
+  icon: categoryIconSchema.nullable().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+});
+
+// Drag-and-drop in the category tree: put a category under a parent at a position among its siblings
+export const moveCategorySchema = z.object({
+  id: idSchema,
+  parentId: idSchema.nullable(),
+  index: z.number().int().min(0),
 });
 
 export const getCategoryBySlugSchema = z.string().min(1);
@@ -75,12 +178,30 @@ export const createUserSchema = z.object({
   lastName: z.string().min(1).max(50).optional(),
 });
 
+// Only http(s) URLs, so a profile link can't run script
+const socialLinkSchema = z.string().url('Invalid URL').max(255).regex(/^https?:\/\//i, 'Links must start with http:// or https://').optional();
+
+export const socialLinksSchema = z.object({
+  website: socialLinkSchema,
+  twitter: socialLinkSchema,
+  github: socialLinkSchema,
+  linkedin: socialLinkSchema,
+  mastodon: socialLinkSchema,
+}) satisfies z.ZodType<SocialLinks>;
+
 export const updateUserSchema = z.object({
   id: idSchema,
   username: z.string().min(3).max(50).optional(),
   email: z.string().email().optional(),
   firstName: z.string().min(1).max(50).optional(),
   lastName: z.string().min(1).max(50).optional(),
+  bio: z.string().max(1000, 'Bio too long').optional(),
+  socialLinks: socialLinksSchema.optional(),
+});
+
+export const updateUserRoleSchema = z.object({
+  id: idSchema,
+  role: z.enum(userRoles),
 });
 
 // Common response schemas
@@ -135,15 +256,146 @@ export const updateTagSchema = z.object({
   message: 'At least one field must be provided for update'
 });
 
+// Comment schemas
+export const commentContentSchema = z.string()
+  .trim()
+  .min(1, 'Comment cannot be empty')
+  .max(5000, 'Comment must be less than 5000 characters');
+
+export const createCommentSchema = z.object({
+  postId: idSchema,
+  content: commentContentSchema,
+});
+
+export const replyCommentSchema = z.object({
+  parentId: idSchema,
+  content: commentContentSchema,
+});
+
+export const updateCommentSchema = z.object({
+  id: idSchema,
+  content: commentContentSchema,
+});
+
+// Moderation queue filters and bulk actions
+export const pendingCommentsSchema = z.object({
+  postId: idSchema.optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+export const moderateCommentsSchema = z.object({
+  ids: z.array(idSchema).min(1).max(100),
+});
+
+// Saved searches - named post listing filters
+export const saveSearchSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters'),
+  query: z.string().max(2000), // The listing's URL query string, without the "?"
+});
+
+// Following - an author or a tag, never both
+export const followTargetSchema = z.object({
+  authorId: idSchema.optional(),
+  tagId: idSchema.optional(),
+}).refine(data => (data.authorId === undefined) !== (data.tagId === undefined), {
+  message: 'Follow either an author or a tag',
+});
+
+// A page of someone's followers, or of who and what they follow
+export const followListSchema = z.object({
+  userId: idSchema,
+  limit: z.number().int().min(1).max(100).default(20),
+  cursor: cursorSchema,
+});
+
+// Reading lists - named groups of bookmarks
+const readingListNameSchema = z.string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(100, 'Name must be less than 100 characters');
+
+export const createReadingListSchema = z.object({
+  name: readingListNameSchema,
+});
+
+export const renameReadingListSchema = z.object({
+  id: idSchema,
+  name: readingListNameSchema,
+});
+
+// Bookmarking a post; listId files it in a reading list (null takes it out of one, omitted leaves it as is)
+export const addBookmarkSchema = z.object({
+  postId: idSchema,
+  listId: idSchema.nullable().optional(),
+});
+
+export const setBookmarkReadSchema = z.object({
+  postId: idSchema,
+  read: z.boolean(),
+});
+
+export const bookmarkStatuses = ['all', 'unread', 'read'] as const;
+
+// A page of the signed-in user's bookmarks; listId null means bookmarks not in any list, omitted means all
+export const bookmarkListSchema = z.object({
+  listId: idSchema.nullable().optional(),
+  status: z.enum(bookmarkStatuses).default('all'),
+  limit: z.number().int().min(1).max(50).default(20),
+  cursor: cursorSchema,
+});
+
+// A page of the signed-in user's notifications, newest first
+export const notificationListSchema = z.object({
+  unreadOnly: z.boolean().default(false),
+  limit: z.number().int().min(1).max(50).default(20),
+  cursor: cursorSchema,
+});
+
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(idSchema).min(1).max(100),
+});
+
+// Author analytics - the dashboard compares the last 7, 30 and 90 days
+export const analyticsPeriods = [7, 30, 90] as const;
+
+export const analyticsFiltersSchema = z.object({
+  days: z.union([z.literal(7), z.literal(30), z.literal(90)]).default(30),
+  authorId: idSchema.optional(), // Defaults to the signed-in user; editors may pick another author
+  postId: idSchema.optional(), // Narrow to one of the author's posts
+});
+
 // Export types for use in components
 export type CreatePostInput = z.infer<typeof createPostSchema>;
 export type UpdatePostInput = z.infer<typeof updatePostSchema>;
 export type PostFilters = z.infer<typeof postFiltersSchema>;
+export type ToggleReactionInput = z.infer<typeof toggleReactionSchema>;
+export type SearchPostsInput = z.infer<typeof searchPostsSchema>;
+export type GetRevisionsInput = z.infer<typeof getRevisionsSchema>;
+export type RestoreRevisionInput = z.infer<typeof restoreRevisionSchema>;
+export type SaveDraftInput = z.infer<typeof saveDraftSchema>;
 export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
 export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type MoveCategoryInput = z.infer<typeof moveCategorySchema>;
 export type CategoryFilters = z.infer<typeof categoryFiltersSchema>;
 export type CreateTagInput = z.infer<typeof createTagSchema>;
 export type UpdateTagInput = z.infer<typeof updateTagSchema>;
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
-export type PaginationInfo = z.infer<typeof paginationSchema>;
\ No newline at end of file
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
+export type CreateCommentInput = z.infer<typeof createCommentSchema>;
+export type ReplyCommentInput = z.infer<typeof replyCommentSchema>;
+export type UpdateCommentInput = z.infer<typeof updateCommentSchema>;
+export type PendingCommentsFilters = z.infer<typeof pendingCommentsSchema>;
+export type ModerateCommentsInput = z.infer<typeof moderateCommentsSchema>;
+export type PaginationInfo = z.infer<typeof paginationSchema>;
+export type AnalyticsFilters = z.infer<typeof analyticsFiltersSchema>;
+export type SaveSearchInput = z.infer<typeof saveSearchSchema>;
+export type FollowTarget = z.infer<typeof followTargetSchema>;
+export type BookmarkStatus = typeof bookmarkStatuses[number];
+export type AddBookmarkInput = z.infer<typeof addBookmarkSchema>;
+export type BookmarkListInput = z.infer<typeof bookmarkListSchema>;
+export type NotificationListInput = z.infer<typeof notificationListSchema>;
\ No newline at end of file
@@ -2,9 +2,19 @@ import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server'
 
 const isPublicRoute = createRouteMatcher([
   '/',
+  '/posts', // Reading is public; create and edit pages still require sign-in
+  '/posts/:slug',
+  '/categories/:slug', // Landing pages are public; the category editor at /categories is not
+  '/tags/:slug',
+  '/authors/:username',
   '/sign-in(.*)',
   '/sign-up(.*)',
-  '/api/trpc(.*)'
+  '/api/trpc(.*)',
+  '/api/jobs(.*)', // Job endpoints check their own secret
+  '/feed(.*)',
+  '/sitemap.xml',
+  '/sitemaps(.*)',
+  '/robots.txt'
 ])
 
 export default clerkMiddleware(async (auth, request) => {
@@ -2,6 +2,12 @@ import { postRouter } from "@/server/api/routers/post";
 import { categoryRouter } from "@/server/api/routers/category";
 import { tagRouter } from "@/server/api/routers/tag";
 import { userRouter } from "@/server/api/routers/user";
+import { commentRouter } from "@/server/api/routers/comment";
+import { analyticsRouter } from "@/server/api/routers/analytics";
+import { savedSearchRouter } from "@/server/api/routers/savedSearch";
+import { socialRouter } from "@/server/api/routers/social";
+import { bookmarkRouter } from "@/server/api/routers/bookmark";
+import { notificationRouter } from "@/server/api/routers/notification";
 import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 
 export const appRouter = createTRPCRouter({
@@ -9,6 +15,12 @@ export const appRouter = createTRPCRouter({
   category: categoryRouter,
   tag: tagRouter,
   user: userRouter,
+  comment: commentRouter,
+  analytics: analyticsRouter,
+  savedSearch: savedSearchRouter,
+  social: socialRouter,
+  bookmark: bookmarkRouter,
+  notification: notificationRouter,
 });
 
 export type AppRouter = typeof appRouter;
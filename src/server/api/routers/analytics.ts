@@ -0,0 +1,102 @@
+// Analytics Router - views, reads, comments and likes on an author's posts over time
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, authorProcedure } from "@/server/api/trpc";
+import { AnalyticsQueries } from "@/lib/db-utils";
+import { hasRole } from "@/lib/permissions";
+import { analyticsFiltersSchema, analyticsPeriods } from "@/lib/validations";
+import type { User } from "@/lib/schema";
+import type { AnalyticsComparison } from "@/types";
+
+/**
+ * Whose posts to report on: the signed-in author unless an editor asked for someone else
+ * @throws {TRPCError} FORBIDDEN if a non-editor asks for another author
+ */
+function resolveAuthorId(user: User, authorId?: number): number {
+  if (authorId && authorId !== user.id && !hasRole(user, 'editor')) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: "You can only view analytics for your own posts",
+    });
+  }
+
+  return authorId ?? user.id;
+}
+
+// Days are UTC, and views and reads reach the rollups in batches, so today may lag slightly
+export const analyticsRouter = createTRPCRouter({
+  // Totals for the last 7, 30 and 90 days, each against the period before it
+  getComparison: authorProcedure
+    .input(analyticsFiltersSchema.omit({ days: true }))
+    .query(async ({ input, ctx }) => {
+      const authorId = resolveAuthorId(ctx.user, input.authorId);
+
+      try {
+        return await Promise.all(
+          analyticsPeriods.map(async (days): Promise<AnalyticsComparison> => {
+            const [current, previous] = await Promise.all([
+              AnalyticsQueries.getTotals(authorId, AnalyticsQueries.getDateRange(days), input.postId),
+              AnalyticsQueries.getTotals(authorId, AnalyticsQueries.getDateRange(days, 1), input.postId),
+            ]);
+            return { days, current, previous };
+          })
+        );
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch analytics comparison',
+          cause: error,
+        });
+      }
+    }),
+
+  // Daily totals over the period, for all of the author's posts or one of them
+  getTimeSeries: authorProcedure
+    .input(analyticsFiltersSchema)
+    .query(async ({ input, ctx }) => {
+      const authorId = resolveAuthorId(ctx.user, input.authorId);
+
+      try {
+        return await AnalyticsQueries.getTimeSeries(authorId, AnalyticsQueries.getDateRange(input.days), input.postId);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch analytics time series',
+          cause: error,
+        });
+      }
+    }),
+
+  // Per-post totals over the period, most viewed first
+  getPostStats: authorProcedure
+    .input(analyticsFiltersSchema.omit({ postId: true }))
+    .query(async ({ input, ctx }) => {
+      const authorId = resolveAuthorId(ctx.user, input.authorId);
+
+      try {
+        return await AnalyticsQueries.getPostStats(authorId, AnalyticsQueries.getDateRange(input.days));
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch post analytics',
+          cause: error,
+        });
+      }
+    }),
+
+  // Sites sending the most readers over the period
+  getTopReferrers: authorProcedure
+    .input(analyticsFiltersSchema)
+    .query(async ({ input, ctx }) => {
+      const authorId = resolveAuthorId(ctx.user, input.authorId);
+
+      try {
+        return await AnalyticsQueries.getTopReferrers(authorId, AnalyticsQueries.getDateRange(input.days), input.postId);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch top referrers',
+          cause: error,
+        });
+      }
+    }),
+});
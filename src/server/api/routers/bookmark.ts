@@ -0,0 +1,359 @@
+// Bookmark Router - saved posts and reading lists, private to each user
+import { and, asc, count, eq, isNotNull, isNull, sql, type SQL } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db";
+import { bookmarks, posts, readingLists, users } from "@/lib/schema";
+import {
+  addBookmarkSchema,
+  bookmarkListSchema,
+  createReadingListSchema,
+  renameReadingListSchema,
+  setBookmarkReadSchema,
+  idSchema,
+} from "@/lib/validations";
+import { keysetAfter, keysetOrderBy, keysetPosition, toCursorPage, type CursorPage, type KeysetSort } from "@/server/pagination";
+import type { BookmarkedPost, ReadingListSummary } from "@/types";
+
+// Plenty for a personal library, and keeps the list picker usable
+const MAX_READING_LISTS = 50;
+
+// Most recently saved first
+const bookmarkSort: KeysetSort = {
+  keys: [
+    { value: bookmarks.createdAt, type: 'timestamp' },
+    { value: bookmarks.id, type: 'integer' },
+  ],
+  direction: 'desc',
+};
+
+// Postgres unique_violation, raised when a list name is already taken
+const isUniqueViolation = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === '23505';
+
+/**
+ * Checks that a reading list belongs to the user
+ * @throws {TRPCError} NOT_FOUND if it doesn't exist or is someone else's
+ */
+async function assertOwnList(userId: number, listId: number) {
+  const [list] = await db
+    .select({ id: readingLists.id })
+    .from(readingLists)
+    .where(and(eq(readingLists.id, listId), eq(readingLists.userId, userId)))
+    .limit(1);
+
+  if (!list) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Reading list not found',
+    });
+  }
+}
+
+export const bookmarkRouter = createTRPCRouter({
+  // Ids of every post the signed-in user has bookmarked, for bookmark toggles on post cards
+  ids: protectedProcedure
+    .query(async ({ ctx }): Promise<number[]> => {
+      try {
+        const rows = await db
+          .select({ postId: bookmarks.postId })
+          .from(bookmarks)
+          .where(eq(bookmarks.userId, ctx.user.id));
+
+        return rows.map((row) => row.postId);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch bookmarks',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * A page of the signed-in user's bookmarked posts, most recently saved first
+   * Posts that have since been unpublished are left out until they're published again
+   */
+  list: protectedProcedure
+    .input(bookmarkListSchema)
+    .query(async ({ input, ctx }): Promise<CursorPage<BookmarkedPost>> => {
+      try {
+        const conditions: SQL[] = [eq(bookmarks.userId, ctx.user.id), eq(posts.published, true)];
+
+        if (input.listId !== undefined) {
+          conditions.push(input.listId === null ? isNull(bookmarks.listId) : eq(bookmarks.listId, input.listId));
+        }
+        if (input.status !== 'all') {
+          conditions.push(input.status === 'read' ? isNotNull(bookmarks.readAt) : isNull(bookmarks.readAt));
+        }
+
+        const after = keysetAfter(bookmarkSort, input.cursor);
+        if (after) {
+          conditions.push(after);
+        }
+
+        const rows = await db
+          .select({
+            bookmark: {
+              id: bookmarks.id,
+              listId: bookmarks.listId,
+              readAt: bookmarks.readAt,
+              createdAt: bookmarks.createdAt,
+            },
+            post: {
+              id: posts.id,
+              title: posts.title,
+              slug: posts.slug,
+              excerpt: posts.excerpt,
+              readingTime: posts.readingTime,
+              publishedAt: posts.publishedAt,
+            },
+            author: {
+              id: users.id,
+              username: users.username,
+              firstName: users.firstName,
+              lastName: users.lastName,
+              avatar: users.avatar,
+            },
+            position: keysetPosition(bookmarkSort),
+          })
+          .from(bookmarks)
+          .innerJoin(posts, eq(bookmarks.postId, posts.id))
+          .leftJoin(users, eq(posts.authorId, users.id))
+          .where(and(...conditions))
+          .orderBy(...keysetOrderBy(bookmarkSort))
+          .limit(input.limit + 1);
+
+        const page = toCursorPage(rows, input.limit);
+
+        return {
+          items: page.items.map((row) => ({
+            bookmark: row.bookmark,
+            post: { ...row.post, author: row.author },
+          })),
+          nextCursor: page.nextCursor,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch bookmarks',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Bookmark a published post, or move an existing bookmark to another list
+   * Bookmarking again keeps the read state
+   */
+  add: protectedProcedure
+    .input(addBookmarkSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const [post] = await db
+          .select({ id: posts.id })
+          .from(posts)
+          .where(and(eq(posts.id, input.postId), eq(posts.published, true)))
+          .limit(1);
+
+        if (!post) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Post not found',
+          });
+        }
+
+        if (input.listId != null) {
+          await assertOwnList(ctx.user.id, input.listId);
+        }
+
+        const [bookmark] = await db
+          .insert(bookmarks)
+          .values({ userId: ctx.user.id, postId: input.postId, listId: input.listId ?? null })
+          .onConflictDoUpdate({
+            target: [bookmarks.userId, bookmarks.postId],
+            // Without a listId there's nothing to change; the no-op update still returns the row
+            set: { listId: input.listId === undefined ? sql`${bookmarks.listId}` : input.listId },
+          })
+          .returning();
+
+        return bookmark!;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to bookmark post',
+          cause: error,
+        });
+      }
+    }),
+
+  // Remove a post from the signed-in user's bookmarks; removing one that isn't there is a no-op
+  remove: protectedProcedure
+    .input(idSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await db
+          .delete(bookmarks)
+          .where(and(eq(bookmarks.userId, ctx.user.id), eq(bookmarks.postId, input)));
+
+        return { success: true };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to remove bookmark',
+          cause: error,
+        });
+      }
+    }),
+
+  // Mark a bookmarked post read or unread; posts that aren't bookmarked are ignored
+  setRead: protectedProcedure
+    .input(setBookmarkReadSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const [updated] = await db
+          .update(bookmarks)
+          .set({ readAt: input.read ? sql`COALESCE(${bookmarks.readAt}, now())` : null })
+          .where(and(eq(bookmarks.userId, ctx.user.id), eq(bookmarks.postId, input.postId)))
+          .returning({ readAt: bookmarks.readAt });
+
+        return { bookmarked: !!updated, readAt: updated?.readAt ?? null };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update bookmark',
+          cause: error,
+        });
+      }
+    }),
+
+  // The signed-in user's reading lists by name, with how many saved and unread posts each holds
+  lists: protectedProcedure
+    .query(async ({ ctx }): Promise<ReadingListSummary[]> => {
+      try {
+        return await db
+          .select({
+            id: readingLists.id,
+            name: readingLists.name,
+            bookmarkCount: count(posts.id),
+            unreadCount: sql<number>`COUNT(${posts.id}) FILTER (WHERE ${bookmarks.readAt} IS NULL)::int`,
+          })
+          .from(readingLists)
+          .leftJoin(bookmarks, eq(bookmarks.listId, readingLists.id))
+          .leftJoin(posts, and(eq(bookmarks.postId, posts.id), eq(posts.published, true)))
+          .where(eq(readingLists.userId, ctx.user.id))
+          .groupBy(readingLists.id)
+          .orderBy(asc(readingLists.name));
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch reading lists',
+          cause: error,
+        });
+      }
+    }),
+
+  // Start a new, empty reading list
+  createList: protectedProcedure
+    .input(createReadingListSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const [total] = await db
+          .select({ count: count() })
+          .from(readingLists)
+          .where(eq(readingLists.userId, ctx.user.id));
+
+        if ((total?.count ?? 0) >= MAX_READING_LISTS) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `You can have up to ${MAX_READING_LISTS} reading lists - delete one first`,
+          });
+        }
+
+        const [list] = await db
+          .insert(readingLists)
+          .values({ userId: ctx.user.id, name: input.name })
+          .returning();
+
+        return list!;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        if (isUniqueViolation(error)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'You already have a reading list with that name',
+          });
+        }
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create reading list',
+          cause: error,
+        });
+      }
+    }),
+
+  // Rename one of the user's reading lists
+  renameList: protectedProcedure
+    .input(renameReadingListSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const [list] = await db
+          .update(readingLists)
+          .set({ name: input.name, updatedAt: new Date() })
+          .where(and(eq(readingLists.id, input.id), eq(readingLists.userId, ctx.user.id)))
+          .returning();
+
+        if (!list) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Reading list not found',
+          });
+        }
+
+        return list;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        if (isUniqueViolation(error)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'You already have a reading list with that name',
+          });
+        }
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to rename reading list',
+          cause: error,
+        });
+      }
+    }),
+
+  // Delete one of the user's reading lists; its bookmarks stay, just not in any list
+  deleteList: protectedProcedure
+    .input(idSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const [deleted] = await db
+          .delete(readingLists)
+          .where(and(eq(readingLists.id, input), eq(readingLists.userId, ctx.user.id)))
+          .returning({ id: readingLists.id });
+
+        if (!deleted) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Reading list not found',
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete reading list',
+          cause: error,
+        });
+      }
+    }),
+});
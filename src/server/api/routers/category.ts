@@ -1,17 +1,66 @@
 import { TRPCError } from "@trpc/server";
-import { eq, like, desc } from "drizzle-orm";
-import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+import { eq, like, desc, and, asc, ne, isNull, inArray, sql } from "drizzle-orm";
+import { createTRPCRouter, publicProcedure, editorProcedure } from "@/server/api/trpc";
 import { db } from "@/server/db";
-import { categories, type Category } from "@/lib/schema";
+import { revalidateCategoryPages } from "@/server/revalidate";
+import { CategoryQueries } from "@/lib/db-utils";
+import { categories, type Category, type CategoryWithHierarchy } from "@/lib/schema";
 import { 
   createCategorySchema, 
   updateCategorySchema, 
+  moveCategorySchema,
   getCategoryBySlugSchema, 
   categoryFiltersSchema,
   idSchema
 } from "@/lib/validations";
 import { generateSlug } from "@/lib/utils";
-import type { CategoryWithCounts } from "@/types";
+import type { CategoryDetail, CategoryWithCounts } from "@/types";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Serializes changes to the hierarchy, so two concurrent moves can't together form a cycle
+const lockCategoryTree = (tx: Transaction) =>
+  tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('categories_tree'))`);
+
+const siblingsCondition = (parentId: number | null) =>
+  parentId === null ? isNull(categories.parentId) : eq(categories.parentId, parentId);
+
+/**
+ * Check that parentId can become the parent of a category
+ * @param id - The category being moved, or null when creating one
+ * @throws {TRPCError} BAD_REQUEST if the parent doesn't exist, or is the category itself or one of its descendants
+ */
+async function assertValidParent(tx: Transaction, id: number | null, parentId: number | null) {
+  if (parentId === null) return;
+
+  const [parent] = await tx
+    .select({ id: categories.id })
+    .from(categories)
+    .where(eq(categories.id, parentId))
+    .limit(1);
+
+  if (!parent) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Parent category not found',
+    });
+  }
+
+  if (id === null) return;
+
+  const [descendant] = await tx
+    .select({ id: categories.id })
+    .from(categories)
+    .where(and(eq(categories.id, parentId), inArray(categories.id, CategoryQueries.subtreeIds(id))))
+    .limit(1);
+
+  if (descendant) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'A category cannot be moved into itself or one of its subcategories',
+    });
+  }
+}
 
 export const categoryRouter = createTRPCRouter({
   // Get all categories
@@ -31,15 +80,29 @@ export const categoryRouter = createTRPCRouter({
       }
     }),
 
-  // Get category by slug
+  // Get all categories as a tree, siblings in their sort order
+  getTree: publicProcedure
+    .query(async (): Promise<CategoryWithHierarchy[]> => {
+      try {
+        return await CategoryQueries.getCategoriesWithHierarchy();
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch categories',
+          cause: error,
+        });
+      }
+    }),
+
+  // Get an active category by slug, with its parent chain and active subcategories
   getBySlug: publicProcedure
     .input(getCategoryBySlugSchema)
-    .query(async ({ input }): Promise<Category> => {
+    .query(async ({ input }): Promise<CategoryDetail> => {
       try {
         const [category] = await db
           .select()
           .from(categories)
-          .where(eq(categories.slug, input));
+          .where(and(eq(categories.slug, input), eq(categories.isActive, true)));
 
         if (!category) {
           throw new TRPCError({
@@ -48,7 +111,22 @@ export const categoryRouter = createTRPCRouter({
           });
         }
 
-        return category;
+        const [ancestors, children] = await Promise.all([
+          CategoryQueries.getAncestors(category.id),
+          db
+            .select({
+              id: categories.id,
+              name: categories.name,
+              slug: categories.slug,
+              color: categories.color,
+              icon: categories.icon,
+            })
+            .from(categories)
+            .where(and(eq(categories.parentId, category.id), eq(categories.isActive, true)))
+            .orderBy(asc(categories.sortOrder), asc(categories.name)),
+        ]);
+
+        return { ...category, ancestors, children };
       } catch (error) {
         if (error instanceof TRPCError) throw error;
         throw new TRPCError({
@@ -59,31 +137,51 @@ export const categoryRouter = createTRPCRouter({
       }
     }),
 
-  // Create new category
-  create: publicProcedure
+  // Create new category (editor and above)
+  create: editorProcedure
     .input(createCategorySchema)
     .mutation(async ({ input }): Promise<Category> => {
       try {
         const slug = generateSlug(input.name);
-        
-        const [newCategory] = await db
-          .insert(categories)
-          .values({
-            name: input.name,
-            description: input.description,
-            slug,
-          })
-          .returning();
+        const parentId = input.parentId ?? null;
 
-        if (!newCategory) {
-          throw new TRPCError({
-            code: 'INTERNAL_SERVER_ERROR',
-            message: 'Failed to create category',
-          });
-        }
+        const category = await db.transaction(async (tx) => {
+          await lockCategoryTree(tx);
+          await assertValidParent(tx, null, parentId);
+
+          // New categories go after their siblings unless a position is given
+          const [{ nextSortOrder } = { nextSortOrder: 0 }] = await tx
+            .select({ nextSortOrder: sql<number>`coalesce(max(${categories.sortOrder}) + 1, 0)::int` })
+            .from(categories)
+            .where(siblingsCondition(parentId));
+
+          const [newCategory] = await tx
+            .insert(categories)
+            .values({
+              name: input.name,
+              description: input.description,
+              slug,
+              parentId,
+              color: input.color ?? null,
+              icon: input.icon ?? null,
+              sortOrder: input.sortOrder ?? nextSortOrder,
+            })
+            .returning();
+
+          if (!newCategory) {
+            throw new TRPCError({
+              code: 'INTERNAL_SERVER_ERROR',
+              message: 'Failed to create category',
+            });
+          }
+
+          return newCategory;
+        });
 
-        return newCategory;
+        revalidateCategoryPages();
+        return category;
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to create category',
@@ -92,8 +190,8 @@ export const categoryRouter = createTRPCRouter({
       }
     }),
 
-  // Update category
-  update: publicProcedure
+  // Update category (editor and above)
+  update: editorProcedure
     .input(updateCategorySchema)
     .mutation(async ({ input }): Promise<Category> => {
       try {
@@ -105,23 +203,33 @@ export const categoryRouter = createTRPCRouter({
           updatePayload.slug = generateSlug(updateData.name);
         }
 
-        const [updatedCategory] = await db
-          .update(categories)
-          .set({
-            ...updatePayload,
-            updatedAt: new Date(),
-          })
-          .where(eq(categories.id, id))
-          .returning();
+        const category = await db.transaction(async (tx) => {
+          if (updateData.parentId !== undefined) {
+            await lockCategoryTree(tx);
+            await assertValidParent(tx, id, updateData.parentId);
+          }
 
-        if (!updatedCategory) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Category not found',
-          });
-        }
+          const [updatedCategory] = await tx
+            .update(categories)
+            .set({
+              ...updatePayload,
+              updatedAt: new Date(),
+            })
+            .where(eq(categories.id, id))
+            .returning();
 
-        return updatedCategory;
+          if (!updatedCategory) {
+            throw new TRPCError({
+              code: 'NOT_FOUND',
+              message: 'Category not found',
+            });
+          }
+
+          return updatedCategory;
+        });
+
+        revalidateCategoryPages();
+        return category;
       } catch (error) {
         if (error instanceof TRPCError) throw error;
         throw new TRPCError({
@@ -132,8 +240,70 @@ export const categoryRouter = createTRPCRouter({
       }
     }),
 
-  // Delete category
-  delete: publicProcedure
+  /**
+   * Move a category in the tree (editor and above)
+   * Puts it under parentId (null = top level) at the given index among its new siblings,
+   * and renumbers the siblings' sortOrder to match
+   */
+  move: editorProcedure
+    .input(moveCategorySchema)
+    .mutation(async ({ input }): Promise<Category> => {
+      try {
+        const category = await db.transaction(async (tx) => {
+          await lockCategoryTree(tx);
+          await assertValidParent(tx, input.id, input.parentId);
+
+          const siblings = await tx
+            .select({ id: categories.id, sortOrder: categories.sortOrder })
+            .from(categories)
+            .where(and(siblingsCondition(input.parentId), ne(categories.id, input.id)))
+            .orderBy(asc(categories.sortOrder), asc(categories.name));
+
+          const [moved] = await tx
+            .update(categories)
+            .set({
+              parentId: input.parentId,
+              sortOrder: Math.min(input.index, siblings.length),
+              updatedAt: new Date(),
+            })
+            .where(eq(categories.id, input.id))
+            .returning();
+
+          if (!moved) {
+            throw new TRPCError({
+              code: 'NOT_FOUND',
+              message: 'Category not found',
+            });
+          }
+
+          // Siblings after the moved category shift down one place; only changed rows are written
+          for (const [position, sibling] of siblings.entries()) {
+            const sortOrder = position < input.index ? position : position + 1;
+            if (sibling.sortOrder !== sortOrder) {
+              await tx
+                .update(categories)
+                .set({ sortOrder })
+                .where(eq(categories.id, sibling.id));
+            }
+          }
+
+          return moved;
+        });
+
+        revalidateCategoryPages();
+        return category;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to move category',
+          cause: error,
+        });
+      }
+    }),
+
+  // Delete category (editor and above)
+  delete: editorProcedure
     .input(idSchema)
     .mutation(async ({ input }): Promise<Category> => {
       try {
@@ -149,6 +319,7 @@ export const categoryRouter = createTRPCRouter({
           });
         }
 
+        revalidateCategoryPages();
         return deletedCategory;
       } catch (error) {
         if (error instanceof TRPCError) throw error;
@@ -0,0 +1,573 @@
+// Comment Router - threaded comments, replies, edits, soft deletes and likes
+import { z } from "zod";
+import { eq, and, asc, count, inArray, ne, sql, type SQL } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db";
+import { comments, commentLikes, posts, users, type Comment, type CommentWithAuthor, type User } from "@/lib/schema";
+import { CommentQueries } from "@/lib/db-utils";
+import { notifyCommentsPublished } from "@/server/notifications";
+import { canManagePost, hasRole } from "@/lib/permissions";
+import {
+  createCommentSchema,
+  replyCommentSchema,
+  updateCommentSchema,
+  pendingCommentsSchema,
+  moderateCommentsSchema,
+  idSchema,
+} from "@/lib/validations";
+import type { CommentThread } from "@/types";
+
+// Shown in place of the content of soft-deleted comments that still have replies
+const DELETED_COMMENT_PLACEHOLDER = "[deleted]";
+
+/**
+ * Strips private author fields and masks soft-deleted comments.
+ * Deleted comments are kept only when they still have visible replies so threads stay intact.
+ */
+function toCommentThreads(threads: CommentWithAuthor[]): CommentThread[] {
+  const result: CommentThread[] = [];
+
+  for (const comment of threads) {
+    const replies = toCommentThreads(comment.replies ?? []);
+
+    if (comment.isDeleted && replies.length === 0) continue;
+
+    result.push({
+      ...comment,
+      content: comment.isDeleted ? DELETED_COMMENT_PLACEHOLDER : comment.content,
+      author: comment.isDeleted || !comment.author ? null : {
+        id: comment.author.id,
+        username: comment.author.username,
+        firstName: comment.author.firstName,
+        lastName: comment.author.lastName,
+        avatar: comment.author.avatar,
+      },
+      replies,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Loads a comment that hasn't been soft-deleted
+ * @throws {TRPCError} NOT_FOUND if the comment doesn't exist or was deleted
+ */
+async function getActiveComment(commentId: number): Promise<Comment> {
+  const [comment] = await db
+    .select()
+    .from(comments)
+    .where(and(eq(comments.id, commentId), eq(comments.isDeleted, false)))
+    .limit(1);
+
+  if (!comment) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Comment not found',
+    });
+  }
+
+  return comment;
+}
+
+/**
+ * Makes sure a post exists and is open for comments
+ * @throws {TRPCError} NOT_FOUND if the post doesn't exist or isn't published
+ */
+async function getCommentablePost(postId: number) {
+  const [post] = await db
+    .select({
+      id: posts.id,
+      authorId: posts.authorId,
+      published: posts.published,
+      autoApproveComments: posts.autoApproveComments,
+    })
+    .from(posts)
+    .where(eq(posts.id, postId))
+    .limit(1);
+
+  if (!post || !post.published) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Post not found',
+    });
+  }
+
+  return post;
+}
+
+/**
+ * Loads a comment readers can see: approved, not deleted, on a published post
+ * @throws {TRPCError} NOT_FOUND otherwise
+ */
+async function getVisibleComment(commentId: number): Promise<Comment> {
+  const comment = await getActiveComment(commentId);
+
+  if (!comment.isApproved) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Comment not found',
+    });
+  }
+
+  await getCommentablePost(comment.postId);
+  return comment;
+}
+
+/**
+ * Decides whether a new or edited comment can skip the moderation queue.
+ * The post author and editors are always trusted; when the post opts in,
+ * so is anyone with an approved comment on another post by the same author.
+ * @param editedCommentId - The comment being edited, which doesn't vouch for itself
+ */
+async function shouldAutoApprove(
+  post: { authorId: number; autoApproveComments: boolean },
+  user: User,
+  editedCommentId?: number
+): Promise<boolean> {
+  if (canManagePost(user, post)) return true;
+  if (!post.autoApproveComments) return false;
+
+  const [previous] = await db
+    .select({ id: comments.id })
+    .from(comments)
+    .innerJoin(posts, eq(comments.postId, posts.id))
+    .where(and(
+      eq(comments.authorId, user.id),
+      eq(comments.isApproved, true),
+      eq(comments.isDeleted, false),
+      eq(posts.authorId, post.authorId),
+      editedCommentId === undefined ? undefined : ne(comments.id, editedCommentId)
+    ))
+    .limit(1);
+
+  return !!previous;
+}
+
+/**
+ * Restricts moderation to comments on posts the user owns.
+ * Editors and admins moderate every post, so no condition is added for them.
+ */
+function moderatedPostsCondition(user: User): SQL | undefined {
+  if (hasRole(user, 'editor')) return undefined;
+
+  return inArray(
+    comments.postId,
+    db.select({ id: posts.id }).from(posts).where(eq(posts.authorId, user.id))
+  );
+}
+
+// Comments waiting in the moderation queue
+const pendingCondition = and(eq(comments.isApproved, false), eq(comments.isDeleted, false));
+
+export const commentRouter = createTRPCRouter({
+  // Get approved comments for a post as nested threads
+  list: publicProcedure
+    .input(z.object({
+      postId: idSchema,
+    }))
+    .query(async ({ input }): Promise<CommentThread[]> => {
+      try {
+        const threads = await CommentQueries.getPostComments(input.postId);
+        return toCommentThreads(threads);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch comments',
+          cause: error,
+        });
+      }
+    }),
+
+  // Ids of the comments on a post that the signed-in user has liked
+  getMyLikes: protectedProcedure
+    .input(z.object({
+      postId: idSchema,
+    }))
+    .query(async ({ input, ctx }): Promise<number[]> => {
+      try {
+        const rows = await db
+          .select({ commentId: commentLikes.commentId })
+          .from(commentLikes)
+          .innerJoin(comments, eq(commentLikes.commentId, comments.id))
+          .where(and(eq(commentLikes.userId, ctx.user.id), eq(comments.postId, input.postId)));
+
+        return rows.map((row) => row.commentId);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch liked comments',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Add a top-level comment to a published post.
+   * New comments start unapproved and appear once moderated, unless auto-approved.
+   */
+  create: protectedProcedure
+    .input(createCommentSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const post = await getCommentablePost(input.postId);
+
+        const [newComment] = await db
+          .insert(comments)
+          .values({
+            postId: input.postId,
+            authorId: ctx.user.id,
+            content: input.content,
+            isApproved: await shouldAutoApprove(post, ctx.user),
+          })
+          .returning();
+
+        if (newComment?.isApproved) {
+          await notifyCommentsPublished([newComment.id]);
+        }
+
+        return newComment;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create comment',
+          cause: error,
+        });
+      }
+    }),
+
+  // Reply to an existing approved comment
+  reply: protectedProcedure
+    .input(replyCommentSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const parent = await getActiveComment(input.parentId);
+
+        if (!parent.isApproved) {
+          throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: 'Cannot reply to a comment awaiting moderation',
+          });
+        }
+
+        const post = await getCommentablePost(parent.postId);
+
+        const [newReply] = await db
+          .insert(comments)
+          .values({
+            postId: parent.postId,
+            parentId: parent.id,
+            authorId: ctx.user.id,
+            content: input.content,
+            isApproved: await shouldAutoApprove(post, ctx.user),
+          })
+          .returning();
+
+        if (newReply?.isApproved) {
+          await notifyCommentsPublished([newReply.id]);
+        }
+
+        return newReply;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to reply to comment',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Edit a comment (comment author only).
+   * Changed content goes back through moderation unless the author would be auto-approved.
+   */
+  update: protectedProcedure
+    .input(updateCommentSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const comment = await getActiveComment(input.id);
+
+        if (comment.authorId !== ctx.user.id) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You can only edit your own comments',
+          });
+        }
+
+        let isApproved = comment.isApproved;
+        if (input.content !== comment.content) {
+          const [post] = await db
+            .select({ authorId: posts.authorId, autoApproveComments: posts.autoApproveComments })
+            .from(posts)
+            .where(eq(posts.id, comment.postId))
+            .limit(1);
+
+          isApproved = !!post && await shouldAutoApprove(post, ctx.user, comment.id);
+        }
+
+        const [updatedComment] = await db
+          .update(comments)
+          .set({
+            content: input.content,
+            isApproved,
+            updatedAt: new Date(),
+          })
+          .where(eq(comments.id, input.id))
+          .returning();
+
+        if (isApproved && !comment.isApproved) {
+          await notifyCommentsPublished([comment.id]);
+        }
+
+        return updatedComment;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update comment',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Soft delete a comment by setting isDeleted.
+   * Allowed for the comment author, the post's author, and editors.
+   * Replies stay visible under a "[deleted]" placeholder.
+   */
+  delete: protectedProcedure
+    .input(z.object({
+      id: idSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const comment = await getActiveComment(input.id);
+
+        if (comment.authorId !== ctx.user.id) {
+          const [post] = await db
+            .select({ authorId: posts.authorId })
+            .from(posts)
+            .where(eq(posts.id, comment.postId))
+            .limit(1);
+
+          if (!post || !canManagePost(ctx.user, post)) {
+            throw new TRPCError({
+              code: 'FORBIDDEN',
+              message: 'You can only delete your own comments',
+            });
+          }
+        }
+
+        await db
+          .update(comments)
+          .set({
+            isDeleted: true,
+            updatedAt: new Date(),
+          })
+          .where(eq(comments.id, input.id));
+
+        return { success: true, message: 'Comment deleted successfully' };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete comment',
+          cause: error,
+        });
+      }
+    }),
+
+  // Toggle the signed-in user's like on a comment
+  like: protectedProcedure
+    .input(z.object({
+      id: idSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await getVisibleComment(input.id);
+
+        return await db.transaction(async (tx) => {
+          const [inserted] = await tx
+            .insert(commentLikes)
+            .values({ commentId: input.id, userId: ctx.user.id })
+            .onConflictDoNothing()
+            .returning();
+
+          if (!inserted) {
+            // Already liked - remove the like instead
+            await tx
+              .delete(commentLikes)
+              .where(and(eq(commentLikes.commentId, input.id), eq(commentLikes.userId, ctx.user.id)));
+          }
+
+          const [updated] = await tx
+            .update(comments)
+            .set({
+              likeCount: inserted
+                ? sql`${comments.likeCount} + 1`
+                : sql`GREATEST(${comments.likeCount} - 1, 0)`,
+            })
+            .where(eq(comments.id, input.id))
+            .returning({ likeCount: comments.likeCount });
+
+          return {
+            liked: !!inserted,
+            likeCount: updated?.likeCount ?? 0,
+          };
+        });
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to like comment',
+          cause: error,
+        });
+      }
+    }),
+
+  // Pending comment counts for the dashboard
+  getModerationCounts: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const [pending] = await db
+          .select({ count: count() })
+          .from(comments)
+          .where(and(pendingCondition, moderatedPostsCondition(ctx.user)));
+
+        return {
+          pending: pending?.count ?? 0,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch moderation counts',
+          cause: error,
+        });
+      }
+    }),
+
+  // Moderation queue - pending comments on posts the user owns (all posts for editors)
+  listPending: protectedProcedure
+    .input(pendingCommentsSchema)
+    .query(async ({ input, ctx }) => {
+      const conditions = [pendingCondition, moderatedPostsCondition(ctx.user)];
+      if (input.postId) {
+        conditions.push(eq(comments.postId, input.postId));
+      }
+
+      try {
+        const [items, [total]] = await Promise.all([
+          db
+            .select({
+              id: comments.id,
+              content: comments.content,
+              parentId: comments.parentId,
+              createdAt: comments.createdAt,
+              post: {
+                id: posts.id,
+                title: posts.title,
+                slug: posts.slug,
+              },
+              author: {
+                id: users.id,
+                username: users.username,
+                firstName: users.firstName,
+                lastName: users.lastName,
+                avatar: users.avatar,
+              },
+            })
+            .from(comments)
+            .innerJoin(posts, eq(comments.postId, posts.id))
+            .innerJoin(users, eq(comments.authorId, users.id))
+            .where(and(...conditions))
+            .orderBy(asc(comments.createdAt))
+            .limit(input.limit)
+            .offset(input.offset),
+          db
+            .select({ count: count() })
+            .from(comments)
+            .where(and(...conditions)),
+        ]);
+
+        return {
+          items,
+          total: total?.count ?? 0,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch pending comments',
+          cause: error,
+        });
+      }
+    }),
+
+  // Approve one or more pending comments
+  approve: protectedProcedure
+    .input(moderateCommentsSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const approved = await db
+          .update(comments)
+          .set({
+            isApproved: true,
+            updatedAt: new Date(),
+          })
+          .where(and(
+            inArray(comments.id, input.ids),
+            pendingCondition,
+            moderatedPostsCondition(ctx.user)
+          ))
+          .returning({ id: comments.id });
+
+        await notifyCommentsPublished(approved.map((comment) => comment.id), ctx.user.id);
+
+        return {
+          success: true,
+          message: `Approved ${approved.length} comments`,
+          ids: approved.map((comment) => comment.id),
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to approve comments',
+          cause: error,
+        });
+      }
+    }),
+
+  // Reject one or more pending comments (soft delete)
+  reject: protectedProcedure
+    .input(moderateCommentsSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const rejected = await db
+          .update(comments)
+          .set({
+            isDeleted: true,
+            updatedAt: new Date(),
+          })
+          .where(and(
+            inArray(comments.id, input.ids),
+            pendingCondition,
+            moderatedPostsCondition(ctx.user)
+          ))
+          .returning({ id: comments.id });
+
+        return {
+          success: true,
+          message: `Rejected ${rejected.length} comments`,
+          ids: rejected.map((comment) => comment.id),
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to reject comments',
+          cause: error,
+        });
+      }
+    }),
+});
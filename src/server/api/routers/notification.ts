@@ -0,0 +1,138 @@
+// Notification Router - the signed-in user's in-app notifications
+import { and, count, eq, inArray, isNull, type SQL } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db";
+import { notifications, posts, users } from "@/lib/schema";
+import { markNotificationsReadSchema, notificationListSchema } from "@/lib/validations";
+import { keysetAfter, keysetOrderBy, keysetPosition, toCursorPage, type CursorPage, type KeysetSort } from "@/server/pagination";
+import type { NotificationItem } from "@/types";
+
+// Newest first
+const notificationSort: KeysetSort = {
+  keys: [
+    { value: notifications.createdAt, type: 'timestamp' },
+    { value: notifications.id, type: 'integer' },
+  ],
+  direction: 'desc',
+};
+
+export const notificationRouter = createTRPCRouter({
+  // A page of the signed-in user's notifications, newest first
+  list: protectedProcedure
+    .input(notificationListSchema)
+    .query(async ({ input, ctx }): Promise<CursorPage<NotificationItem>> => {
+      try {
+        const conditions: SQL[] = [eq(notifications.userId, ctx.user.id)];
+        if (input.unreadOnly) {
+          conditions.push(isNull(notifications.readAt));
+        }
+
+        const after = keysetAfter(notificationSort, input.cursor);
+        if (after) {
+          conditions.push(after);
+        }
+
+        const rows = await db
+          .select({
+            id: notifications.id,
+            type: notifications.type,
+            commentId: notifications.commentId,
+            readAt: notifications.readAt,
+            createdAt: notifications.createdAt,
+            actor: {
+              id: users.id,
+              username: users.username,
+              firstName: users.firstName,
+              lastName: users.lastName,
+              avatar: users.avatar,
+            },
+            post: {
+              id: posts.id,
+              title: posts.title,
+              slug: posts.slug,
+            },
+            position: keysetPosition(notificationSort),
+          })
+          .from(notifications)
+          .leftJoin(users, eq(notifications.actorId, users.id))
+          .leftJoin(posts, eq(notifications.postId, posts.id))
+          .where(and(...conditions))
+          .orderBy(...keysetOrderBy(notificationSort))
+          .limit(input.limit + 1);
+
+        return toCursorPage(rows, input.limit);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch notifications',
+          cause: error,
+        });
+      }
+    }),
+
+  // How many of the signed-in user's notifications are unread, for the bell badge
+  unreadCount: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const [result] = await db
+          .select({ count: count() })
+          .from(notifications)
+          .where(and(eq(notifications.userId, ctx.user.id), isNull(notifications.readAt)));
+
+        return result?.count ?? 0;
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to count notifications',
+          cause: error,
+        });
+      }
+    }),
+
+  // Mark some of the user's notifications read; ids that aren't theirs or are already read are skipped
+  markRead: protectedProcedure
+    .input(markNotificationsReadSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const updated = await db
+          .update(notifications)
+          .set({ readAt: new Date() })
+          .where(and(
+            inArray(notifications.id, input.ids),
+            eq(notifications.userId, ctx.user.id),
+            isNull(notifications.readAt)
+          ))
+          .returning({ id: notifications.id });
+
+        return { ids: updated.map((notification) => notification.id) };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to mark notifications read',
+          cause: error,
+        });
+      }
+    }),
+
+  // Mark every unread notification of the user's read
+  markAllRead: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      try {
+        const updated = await db
+          .update(notifications)
+          .set({ readAt: new Date() })
+          .where(and(eq(notifications.userId, ctx.user.id), isNull(notifications.readAt)))
+          .returning({ id: notifications.id });
+
+        return { count: updated.length };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to mark notifications read',
+          cause: error,
+        });
+      }
+    }),
+});
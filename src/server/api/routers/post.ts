@@ -1,18 +1,33 @@
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { eq, like, desc, and, sql } from "drizzle-orm";
-import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import { eq, ilike, or, desc, asc, and, sql, inArray, isNull, isNotNull, count, countDistinct, gte, lte, type SQL } from "drizzle-orm";
+import { createTRPCRouter, publicProcedure, protectedProcedure, authorProcedure } from "@/server/api/trpc";
+import { findUserByClerkId } from "@/server/auth";
+import { revalidatePostPages } from "@/server/revalidate";
+import { keysetAfter, keysetOrderBy, keysetPosition, toCursorPage, type CursorPage, type KeysetSort, type SortDirection } from "@/server/pagination";
+import { isBotUserAgent, recordPostView } from "@/server/views";
+import { notifyPostsPublished } from "@/server/notifications";
 import { db } from "@/server/db";
-import { posts, categories, postCategories, users, type Post, type Category } from "@/lib/schema";
+import { CategoryQueries } from "@/lib/db-utils";
+import { posts, categories, postCategories, tags, postTags, postRevisions, postDrafts, postReactions, users, follows, reactionTypes, type Post, type PostDraft, type Category, type ReactionType, type User } from "@/lib/schema";
 import { 
   createPostSchema, 
   updatePostSchema, 
   getPostBySlugSchema, 
   postFiltersSchema,
-  idSchema
+  searchPostsSchema,
+  getRevisionsSchema,
+  restoreRevisionSchema,
+  draftTargetSchema,
+  saveDraftSchema,
+  recordViewSchema,
+  toggleReactionSchema,
+  idSchema,
+  type PostSortField
 } from "@/lib/validations";
-import { generateSlug } from "@/lib/utils";
-import type { PostWithCategories } from "@/types";
+import { generateSlug, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from "@/lib/utils";
+import { canManagePost, hasRole } from "@/lib/permissions";
+import type { PostWithCategories, PostSearchResult, PostRevisionWithEditor, ReactionCounts, ServerDraft } from "@/types";
 
 /**
  * Raw database query result type for posts with optional category join
@@ -29,11 +44,16 @@ interface RawPostQueryResult {
   readingTime: number | null;
   seoTitle: string | null;
   seoDescription: string | null;
+  autoApproveComments: boolean;
   publishedAt: Date | null;
+  scheduledAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   authorId?: number | null;
-  categories: Category | null;
+  categories?: Category | null; // Absent when categories are attached separately
+  searchRank?: number | null;
+  titleHighlight?: string | null;
+  snippet?: string | null;
 }
 
 /**
@@ -46,7 +66,7 @@ function transformPostQueryResults(results: RawPostQueryResult[]): PostWithCateg
   const postsMap = new Map<number, PostWithCategories>();
 
   results.forEach((result) => {
-    const { categories, ...postData } = result;
+    const { categories, searchRank, titleHighlight, snippet, ...postData } = result;
     
     if (!postsMap.has(postData.id)) {
       // Include all required fields from the SchemaPost type
@@ -62,11 +82,21 @@ function transformPostQueryResults(results: RawPostQueryResult[]): PostWithCateg
         readingTime: postData.readingTime,
         seoTitle: postData.seoTitle,
         seoDescription: postData.seoDescription,
+        autoApproveComments: postData.autoApproveComments,
         publishedAt: postData.publishedAt,
+        scheduledAt: postData.scheduledAt,
         createdAt: postData.createdAt,
         updatedAt: postData.updatedAt,
         authorId: postData.authorId ?? null,
         categories: [],
+        tags: [],
+        ...(searchRank != null && {
+          search: {
+            rank: searchRank,
+            titleHighlight: titleHighlight ?? postData.title,
+            snippet: snippet ?? '',
+          },
+        }),
       });
     }
 
@@ -81,26 +111,509 @@ function transformPostQueryResults(results: RawPostQueryResult[]): PostWithCateg
   return Array.from(postsMap.values());
 }
 
+// ts_headline options: wrap matches in the markers highlightSearchTerm understands
+const SNIPPET_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" ... "`;
+const TITLE_HIGHLIGHT_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, HighlightAll=true`;
+
+/**
+ * Parses free-form search input into a tsquery
+ * websearch syntax supports "quoted phrases", OR and -exclusions and never throws on bad input
+ */
+function toSearchQuery(search: string): SQL {
+  return sql`websearch_to_tsquery('english', ${search})`;
+}
+
+// Makes user text match literally inside a LIKE pattern
+const escapeLikePattern = (text: string) => text.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+/**
+ * Matches posts whose search document contains the query
+ * Also matches titles containing the raw text so partially typed words still find something
+ */
+function searchCondition(search: string): SQL {
+  return or(
+    sql`${posts.searchVector} @@ ${toSearchQuery(search)}`,
+    ilike(posts.title, `%${escapeLikePattern(search)}%`)
+  )!;
+}
+
+/**
+ * Relevance of a post to a search, higher is better
+ */
+function searchRankValue(search: string): SQL {
+  return sql`ts_rank_cd(${posts.searchVector}, ${toSearchQuery(search)})`;
+}
+
+/**
+ * Rank and highlighted snippet columns for a search
+ * The snippet comes from the body text with HTML tags stripped, like the search vector
+ */
+function searchMatchFields(search: string) {
+  const query = toSearchQuery(search);
+  return {
+    searchRank: sql<number | null>`${searchRankValue(search)}`.mapWith(Number),
+    titleHighlight: sql<string | null>`ts_headline('english', ${posts.title}, ${query}, ${TITLE_HIGHLIGHT_OPTIONS})`,
+    snippet: sql<string | null>`ts_headline('english', regexp_replace(coalesce(${posts.content}, ''), '<[^>]*>', ' ', 'g'), ${query}, ${SNIPPET_OPTIONS})`,
+  };
+}
+
+// Placeholder columns so non-search queries keep the same result shape
+const noSearchMatchFields = {
+  searchRank: sql<number | null>`null`,
+  titleHighlight: sql<string | null>`null`,
+  snippet: sql<string | null>`null`,
+};
+
+/**
+ * Keyset sort for post listings
+ * Relevance needs a search term and falls back to creation date without one;
+ * ties are broken by creation date, then id
+ */
+function postListingSort(sortBy: PostSortField, direction: SortDirection, search?: string): KeysetSort {
+  const primary: KeysetSort['keys'] = (() => {
+    switch (sortBy) {
+      case 'relevance':
+        return search ? [{ value: searchRankValue(search), type: 'real' }] : [];
+      case 'updatedAt':
+        return [{ value: posts.updatedAt, type: 'timestamp' }];
+      case 'title':
+        return [{ value: posts.title, type: 'text' }];
+      case 'viewCount':
+        return [{ value: posts.viewCount, type: 'integer' }];
+      case 'createdAt':
+        return [];
+    }
+  })();
+
+  return {
+    keys: [
+      ...primary,
+      { value: posts.createdAt, type: 'timestamp' },
+      { value: posts.id, type: 'integer' },
+    ],
+    direction,
+  };
+}
+
+/**
+ * Loads the categories for a batch of posts in one query and attaches them in place
+ * Used by paged listings, where joining categories would multiply rows and shrink the page
+ * @param postList - Posts to attach categories to
+ * @returns The same posts with their categories populated
+ */
+async function attachCategories(postList: PostWithCategories[]): Promise<PostWithCategories[]> {
+  if (postList.length === 0) return postList;
+
+  const rows = await db
+    .select({
+      postId: postCategories.postId,
+      category: categories,
+    })
+    .from(postCategories)
+    .innerJoin(categories, eq(postCategories.categoryId, categories.id))
+    .where(inArray(postCategories.postId, postList.map((post) => post.id)));
+
+  const postsById = new Map(postList.map((post) => [post.id, post]));
+  for (const row of rows) {
+    postsById.get(row.postId)?.categories.push(row.category);
+  }
+
+  return postList;
+}
+
+/**
+ * Loads the public profiles of the authors of a batch of posts and attaches them in place
+ * @param postList - Posts to attach authors to
+ * @returns The same posts with author set (null when the author no longer exists)
+ */
+async function attachAuthors(postList: PostWithCategories[]): Promise<PostWithCategories[]> {
+  const authorIds = Array.from(new Set(postList.map((post) => post.authorId).filter((id): id is number => id != null)));
+  if (authorIds.length === 0) return postList;
+
+  const rows = await db
+    .select({
+      id: users.id,
+      username: users.username,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      avatar: users.avatar,
+    })
+    .from(users)
+    .where(inArray(users.id, authorIds));
+
+  const authorsById = new Map(rows.map((author) => [author.id, author]));
+  for (const post of postList) {
+    post.author = post.authorId != null ? authorsById.get(post.authorId) ?? null : null;
+  }
+
+  return postList;
+}
+
+/**
+ * Loads the tags for a batch of posts in one query and attaches them in place
+ * Done separately from the category join so tags don't multiply result rows
+ * @param postList - Posts to attach tags to
+ * @returns The same posts with their tags populated
+ */
+async function attachTags(postList: PostWithCategories[]): Promise<PostWithCategories[]> {
+  if (postList.length === 0) return postList;
+
+  const rows = await db
+    .select({
+      postId: postTags.postId,
+      tag: tags,
+    })
+    .from(postTags)
+    .innerJoin(tags, eq(postTags.tagId, tags.id))
+    .where(inArray(postTags.postId, postList.map((post) => post.id)));
+
+  const postsById = new Map(postList.map((post) => [post.id, post]));
+  for (const row of rows) {
+    postsById.get(row.postId)?.tags.push(row.tag);
+  }
+
+  return postList;
+}
+
+/**
+ * Counts each reaction type on a batch of posts in one grouped query
+ * @param postIds - Posts to count reactions for
+ * @returns Counts by post id, with every reaction type present (zero if unused)
+ */
+async function countReactions(postIds: number[]): Promise<Map<number, ReactionCounts>> {
+  const countsByPost = new Map(
+    postIds.map((id) => [id, Object.fromEntries(reactionTypes.map((type) => [type, 0])) as ReactionCounts])
+  );
+  if (postIds.length === 0) return countsByPost;
+
+  const rows = await db
+    .select({
+      postId: postReactions.postId,
+      type: postReactions.type,
+      count: count(),
+    })
+    .from(postReactions)
+    .where(inArray(postReactions.postId, postIds))
+    .groupBy(postReactions.postId, postReactions.type);
+
+  for (const row of rows) {
+    const counts = countsByPost.get(row.postId);
+    // Skip types that have since been retired from reactionTypes
+    if (counts && row.type in counts) counts[row.type] = row.count;
+  }
+
+  return countsByPost;
+}
+
+/**
+ * Loads the reaction counts for a batch of posts and attaches them in place
+ * @param postList - Posts to attach reaction counts to
+ * @returns The same posts with their reaction counts populated
+ */
+async function attachReactions(postList: PostWithCategories[]): Promise<PostWithCategories[]> {
+  const countsByPost = await countReactions(postList.map((post) => post.id));
+  for (const post of postList) {
+    post.reactions = countsByPost.get(post.id);
+  }
+
+  return postList;
+}
+
+/**
+ * Builds the condition for filtering posts by tags
+ * 'any' matches posts with at least one of the tags, 'all' only posts that have every tag
+ */
+function tagFilterCondition(tagIds: number[], mode: 'any' | 'all'): SQL {
+  const uniqueTagIds = Array.from(new Set(tagIds));
+
+  if (mode === 'any') {
+    return inArray(
+      posts.id,
+      db.select({ postId: postTags.postId }).from(postTags).where(inArray(postTags.tagId, uniqueTagIds))
+    );
+  }
+
+  return inArray(
+    posts.id,
+    db
+      .select({ postId: postTags.postId })
+      .from(postTags)
+      .where(inArray(postTags.tagId, uniqueTagIds))
+      .groupBy(postTags.postId)
+      .having(sql`${countDistinct(postTags.tagId)} = ${uniqueTagIds.length}`)
+  );
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Recomputes usageCount for the given tags from the post_tags table
+ */
+async function syncTagUsageCounts(tx: Transaction, tagIds: number[]) {
+  if (tagIds.length === 0) return;
+
+  await tx
+    .update(tags)
+    .set({
+      usageCount: sql`(SELECT COUNT(*) FROM ${postTags} WHERE ${postTags.tagId} = ${tags.id})`,
+      updatedAt: new Date(),
+    })
+    .where(inArray(tags.id, Array.from(new Set(tagIds))));
+}
+
+/**
+ * Replaces a post's tags and keeps tag usage counts in sync
+ * Runs in one transaction, so a failed insert doesn't leave the post with no tags
+ */
+async function setPostTags(postId: number, tagIds: number[]) {
+  await db.transaction(async (tx) => {
+    const previous = await tx
+      .select({ tagId: postTags.tagId })
+      .from(postTags)
+      .where(eq(postTags.postId, postId));
+
+    await tx.delete(postTags).where(eq(postTags.postId, postId));
+
+    const uniqueTagIds = Array.from(new Set(tagIds));
+    if (uniqueTagIds.length > 0) {
+      await tx.insert(postTags).values(
+        uniqueTagIds.map((tagId) => ({
+          postId,
+          tagId,
+        })),
+      );
+    }
+
+    await syncTagUsageCounts(tx, [...previous.map((row) => row.tagId), ...uniqueTagIds]);
+  });
+}
+
+/**
+ * Posts by authors the user follows, or tagged with a tag they follow
+ * @param followerId - Local id of the following user
+ */
+function followingCondition(followerId: number): SQL {
+  const followedAuthorIds = db
+    .select({ authorId: follows.authorId })
+    .from(follows)
+    .where(and(eq(follows.followerId, followerId), isNotNull(follows.authorId)));
+
+  const followedTagIds = db
+    .select({ tagId: follows.tagId })
+    .from(follows)
+    .where(and(eq(follows.followerId, followerId), isNotNull(follows.tagId)));
+
+  return or(
+    inArray(posts.authorId, followedAuthorIds),
+    inArray(posts.id, db.select({ postId: postTags.postId }).from(postTags).where(inArray(postTags.tagId, followedTagIds)))
+  )!;
+}
+
+/**
+ * Hides drafts and scheduled posts from everyone but their author and editors until they go live
+ * @param viewer - Signed-in local user, or null for anonymous visitors
+ * @returns Condition to add to post queries, or undefined when the viewer can see everything
+ */
+function postVisibilityCondition(viewer: User | null): SQL | undefined {
+  if (hasRole(viewer, 'editor')) return undefined;
+
+  return or(
+    eq(posts.published, true),
+    viewer ? eq(posts.authorId, viewer.id) : undefined
+  );
+}
+
+/**
+ * Works out published, publishedAt and scheduledAt for a create or update
+ * Publishing clears any schedule; a scheduled post stays unpublished until the publish job promotes it
+ * @param input - The published flag and scheduled time from the request (undefined = unchanged)
+ * @param current - The post being updated, if any
+ * @throws {TRPCError} BAD_REQUEST if asked to publish now and schedule at the same time
+ */
+function resolvePublishState(
+  input: { published?: boolean; scheduledAt?: Date | null },
+  current?: Pick<Post, 'published' | 'publishedAt'>
+): Partial<Pick<Post, 'published' | 'publishedAt' | 'scheduledAt'>> {
+  if (input.published && input.scheduledAt) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'A post cannot be published now and scheduled at the same time',
+    });
+  }
+
+  if (input.scheduledAt) {
+    return { published: false, scheduledAt: input.scheduledAt };
+  }
+
+  if (input.published) {
+    // Keep the original publish date when re-saving an already published post
+    return {
+      published: true,
+      publishedAt: current?.published && current.publishedAt ? current.publishedAt : new Date(),
+      scheduledAt: null,
+    };
+  }
+
+  const state: Partial<Pick<Post, 'published' | 'publishedAt' | 'scheduledAt'>> = {};
+  if (input.published === false) state.published = false;
+  if (input.scheduledAt === null) state.scheduledAt = null;
+  return state;
+}
+
+/**
+ * Saves a snapshot of the post as its next revision
+ * The revision number is computed in the insert so concurrent saves hit the unique index instead of duplicating
+ * @param post - Post state to snapshot
+ * @param editorId - User who made the change
+ * @param note - Optional description, e.g. for restores
+ */
+async function recordRevision(
+  post: Pick<Post, 'id' | 'title' | 'content' | 'excerpt'>,
+  editorId: number | null,
+  note?: string
+) {
+  await db.insert(postRevisions).values({
+    postId: post.id,
+    editorId,
+    revisionNumber: sql`(SELECT COALESCE(MAX(${postRevisions.revisionNumber}), 0) + 1 FROM ${postRevisions} WHERE ${postRevisions.postId} = ${post.id})`,
+    title: post.title,
+    content: post.content,
+    excerpt: post.excerpt,
+    note: note ?? null,
+  });
+}
+
+/**
+ * Posts created before revisions existed have no history yet
+ * Snapshot their current state first so the change about to be made can be diffed and undone
+ */
+async function ensureBaselineRevision(post: Post) {
+  const [existing] = await db
+    .select({ id: postRevisions.id })
+    .from(postRevisions)
+    .where(eq(postRevisions.postId, post.id))
+    .limit(1);
+
+  if (!existing) {
+    await recordRevision(post, post.authorId, 'Original version');
+  }
+}
+
+/**
+ * Condition selecting a user's autosaved draft for a post (or for a new post when postId is null)
+ */
+function draftCondition(userId: number, postId: number | null): SQL {
+  return and(
+    eq(postDrafts.userId, userId),
+    postId === null ? isNull(postDrafts.postId) : eq(postDrafts.postId, postId)
+  )!;
+}
+
+/**
+ * Converts a stored draft row to the API shape
+ * JSON has no dates, so the draft timestamp comes back as a string and is revived here
+ */
+function toServerDraft(row: PostDraft): ServerDraft {
+  return {
+    draft: {
+      ...row.data,
+      scheduledAt: row.data.scheduledAt ? new Date(row.data.scheduledAt) : row.data.scheduledAt,
+      timestamp: new Date(row.data.timestamp),
+    },
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Loads a post and checks the user may modify it
+ * Authors can only manage their own posts; editors and admins can manage any post
+ * @throws {TRPCError} NOT_FOUND if the post doesn't exist
+ * @throws {TRPCError} FORBIDDEN if the user doesn't own the post
+ */
+async function assertCanManagePost(postId: number, user: User): Promise<Post> {
+  const [post] = await db
+    .select()
+    .from(posts)
+    .where(eq(posts.id, postId))
+    .limit(1);
+
+  if (!post) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Post not found',
+    });
+  }
+
+  if (!canManagePost(user, post)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You can only modify your own posts',
+    });
+  }
+
+  return post;
+}
+
 export const postRouter = createTRPCRouter({
-  // Get all posts with categories
+  // Get a page of posts with categories and tags, continuing after `cursor`
   getAll: publicProcedure
     .input(postFiltersSchema)
-    .query(async ({ input }): Promise<PostWithCategories[]> => {
+    .query(async ({ input, ctx }): Promise<CursorPage<PostWithCategories>> => {
       try {
         const conditions = [];
         
         if (input.published !== undefined) {
           conditions.push(eq(posts.published, input.published));
         }
+
+        if (input.scheduled !== undefined) {
+          conditions.push(input.scheduled ? isNotNull(posts.scheduledAt) : isNull(posts.scheduledAt));
+        }
+
+        if (input.authorId) {
+          conditions.push(eq(posts.authorId, input.authorId));
+        }
+
+        const viewer = await findUserByClerkId(ctx.userId);
+        const visibility = postVisibilityCondition(viewer);
+        if (visibility) {
+          conditions.push(visibility);
+        }
+
+        // Anonymous visitors follow nothing
+        if (input.following) {
+          conditions.push(viewer ? followingCondition(viewer.id) : sql`false`);
+        }
         
-        if (input.search) {
-          conditions.push(
-            like(posts.title, `%${input.search}%`)
-          );
+        const search = input.search?.trim();
+        const matchFields = search ? searchMatchFields(search) : noSearchMatchFields;
+
+        if (search) {
+          conditions.push(searchCondition(search));
         }
 
+        // Subquery rather than a join so posts in several categories aren't repeated
         if (input.categoryId) {
-          conditions.push(eq(postCategories.categoryId, input.categoryId));
+          conditions.push(CategoryQueries.postsInCategoryCondition(input.categoryId));
+        }
+
+        if (input.tagIds && input.tagIds.length > 0) {
+          conditions.push(tagFilterCondition(input.tagIds, input.tagMatch));
+        }
+
+        if (input.createdFrom) {
+          conditions.push(gte(posts.createdAt, input.createdFrom));
+        }
+
+        if (input.createdTo) {
+          conditions.push(lte(posts.createdAt, input.createdTo));
+        }
+
+        const sort = postListingSort(input.sortBy, input.sortOrder, search);
+
+        const after = keysetAfter(sort, input.cursor);
+        if (after) {
+          conditions.push(after);
         }
 
         const results = await db
@@ -116,22 +629,28 @@ export const postRouter = createTRPCRouter({
             readingTime: posts.readingTime,
             seoTitle: posts.seoTitle,
             seoDescription: posts.seoDescription,
+            autoApproveComments: posts.autoApproveComments,
             publishedAt: posts.publishedAt,
+            scheduledAt: posts.scheduledAt,
             createdAt: posts.createdAt,
             updatedAt: posts.updatedAt,
             authorId: posts.authorId,
-            categories: categories,
+            ...matchFields,
+            position: keysetPosition(sort),
           })
           .from(posts)
-          .leftJoin(postCategories, eq(posts.id, postCategories.postId))
-          .leftJoin(categories, eq(postCategories.categoryId, categories.id))
           .where(conditions.length > 0 ? and(...conditions) : undefined)
-          .orderBy(desc(posts.createdAt))
-          .limit(input.limit)
-          .offset(input.offset);
+          .orderBy(...keysetOrderBy(sort))
+          .limit(input.limit + 1);
+
+        const page = toCursorPage(results, input.limit);
 
-        return transformPostQueryResults(results);
+        return {
+          items: await attachReactions(await attachAuthors(await attachTags(await attachCategories(transformPostQueryResults(page.items))))),
+          nextCursor: page.nextCursor,
+        };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to fetch posts',
@@ -140,11 +659,52 @@ export const postRouter = createTRPCRouter({
       }
     }),
 
+  /**
+   * Ranked full-text search over published posts
+   * Returns lightweight results with highlighted title and snippet for quick search dropdowns
+   */
+  search: publicProcedure
+    .input(searchPostsSchema)
+    .query(async ({ input }): Promise<PostSearchResult[]> => {
+      try {
+        const matchFields = searchMatchFields(input.query);
+
+        const results = await db
+          .select({
+            id: posts.id,
+            title: posts.title,
+            slug: posts.slug,
+            ...matchFields,
+          })
+          .from(posts)
+          .where(and(eq(posts.published, true), searchCondition(input.query)))
+          .orderBy(desc(matchFields.searchRank), desc(posts.createdAt))
+          .limit(input.limit);
+
+        return results.map(({ searchRank, titleHighlight, snippet, ...post }) => ({
+          ...post,
+          search: {
+            rank: searchRank ?? 0,
+            titleHighlight: titleHighlight ?? post.title,
+            snippet: snippet ?? '',
+          },
+        }));
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to search posts',
+          cause: error,
+        });
+      }
+    }),
+
   // Get single post by slug
   getBySlug: publicProcedure
     .input(getPostBySlugSchema)
-    .query(async ({ input }): Promise<PostWithCategories> => {
+    .query(async ({ input, ctx }): Promise<PostWithCategories> => {
       try {
+        const viewer = await findUserByClerkId(ctx.userId);
+
         const results = await db
           .select({
             id: posts.id,
@@ -158,7 +718,9 @@ export const postRouter = createTRPCRouter({
             readingTime: posts.readingTime,
             seoTitle: posts.seoTitle,
             seoDescription: posts.seoDescription,
+            autoApproveComments: posts.autoApproveComments,
             publishedAt: posts.publishedAt,
+            scheduledAt: posts.scheduledAt,
             createdAt: posts.createdAt,
             updatedAt: posts.updatedAt,
             authorId: posts.authorId,
@@ -167,7 +729,7 @@ export const postRouter = createTRPCRouter({
           .from(posts)
           .leftJoin(postCategories, eq(posts.id, postCategories.postId))
           .leftJoin(categories, eq(postCategories.categoryId, categories.id))
-          .where(eq(posts.slug, input));
+          .where(and(eq(posts.slug, input), postVisibilityCondition(viewer)));
 
         if (results.length === 0) {
           throw new TRPCError({
@@ -176,7 +738,7 @@ export const postRouter = createTRPCRouter({
           });
         }
 
-        const transformedPosts = transformPostQueryResults(results);
+        const transformedPosts = await attachReactions(await attachAuthors(await attachTags(transformPostQueryResults(results))));
         return transformedPosts[0]!;
       } catch (error) {
         if (error instanceof TRPCError) throw error;
@@ -189,54 +751,181 @@ export const postRouter = createTRPCRouter({
     }),
 
   /**
-   * Create a new blog post (requires authentication)
+   * Count a view (post opened) or read (reached the end) of a published post
+   * Once per visitor per kind per window; bots and the post's own author don't count
+   * Counts reach posts.viewCount and analytics in batches, so they may lag by a minute or so
+   */
+  recordView: publicProcedure
+    .input(recordViewSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (isBotUserAgent(ctx.headers.get('user-agent'))) {
+          return { counted: false };
+        }
+
+        const [post] = await db
+          .select({ authorId: posts.authorId })
+          .from(posts)
+          .where(and(eq(posts.id, input.postId), eq(posts.published, true)))
+          .limit(1);
+
+        if (!post) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Post not found',
+          });
+        }
+
+        const viewer = await findUserByClerkId(ctx.userId);
+        if (viewer?.id === post.authorId) {
+          return { counted: false };
+        }
+
+        const counted = await recordPostView(input.postId, ctx.headers, {
+          kind: input.kind,
+          referrer: input.referrer,
+        });
+
+        return { counted };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to record view',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Toggle one of the signed-in user's reactions on a published post
+   * Each reaction type can be left once per user; toggling again takes it back
+   * Cached post pages aren't revalidated for this - clients refetch the counts
+   */
+  toggleReaction: protectedProcedure
+    .input(toggleReactionSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const [post] = await db
+          .select({ id: posts.id })
+          .from(posts)
+          .where(and(eq(posts.id, input.postId), eq(posts.published, true)))
+          .limit(1);
+
+        if (!post) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Post not found',
+          });
+        }
+
+        const [inserted] = await db
+          .insert(postReactions)
+          .values({ postId: input.postId, userId: ctx.user.id, type: input.type })
+          .onConflictDoNothing()
+          .returning({ id: postReactions.id });
+
+        if (!inserted) {
+          // Already reacted - take the reaction back instead
+          await db
+            .delete(postReactions)
+            .where(and(
+              eq(postReactions.postId, input.postId),
+              eq(postReactions.userId, ctx.user.id),
+              eq(postReactions.type, input.type)
+            ));
+        }
+
+        const countsByPost = await countReactions([input.postId]);
+        return {
+          reacted: !!inserted,
+          reactions: countsByPost.get(input.postId)!,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update reaction',
+          cause: error,
+        });
+      }
+    }),
+
+  // Reaction types the signed-in user has left on a post
+  getMyReactions: protectedProcedure
+    .input(z.object({
+      postId: idSchema,
+    }))
+    .query(async ({ input, ctx }): Promise<ReactionType[]> => {
+      try {
+        const rows = await db
+          .select({ type: postReactions.type })
+          .from(postReactions)
+          .where(and(eq(postReactions.postId, input.postId), eq(postReactions.userId, ctx.user.id)));
+
+        return rows.map((row) => row.type);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch reactions',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Upcoming scheduled posts for the signed-in author, soonest first
+   */
+  getScheduled: authorProcedure
+    .input(z.object({
+      limit: z.number().int().min(1).max(50).default(5),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await db
+          .select({
+            id: posts.id,
+            title: posts.title,
+            slug: posts.slug,
+            scheduledAt: posts.scheduledAt,
+          })
+          .from(posts)
+          .where(and(eq(posts.authorId, ctx.user.id), isNotNull(posts.scheduledAt)))
+          .orderBy(asc(posts.scheduledAt))
+          .limit(input.limit);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch scheduled posts',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Create a new blog post (requires the author role)
    * Generates slug automatically from title
-   * Optionally associates post with categories
-   * Uses authenticated user's ID as author
+   * Optionally associates post with categories and tags
+   * Uses the signed-in user's local users.id as author
+   * Passing scheduledAt keeps the post unpublished until that time
    */
-  create: protectedProcedure
+  create: authorProcedure
     .input(createPostSchema)
     .mutation(async ({ input, ctx }) => {
       try {
         const slug = generateSlug(input.title);
         
-        // Note: ctx.userId is a Clerk ID (string), but our DB expects integer
-        // In a real app, you'd have a users table that maps Clerk IDs to DB user IDs
-        // For now, try to use a placeholder user (id=1). If it doesn't exist, create
-        // a minimal database user tied to the Clerk ID so FK constraints do not fail.
-        let dbUserId = 1; // default placeholder user id
-
-        // Ensure the placeholder user exists; if not, create a minimal one using the Clerk user id
-        const clerkId = ctx.userId as string | null;
-        const existingUser = await db.select().from(users).where(eq(users.id, dbUserId)).limit(1);
-        if (!existingUser || existingUser.length === 0) {
-          if (clerkId) {
-            // Create a minimal user record so the FK constraint is satisfied.
-            // Use a synthetic email derived from Clerk id to satisfy DB NOT NULL and email format.
-            const username = `clerk_${clerkId.slice(0, 8)}`;
-            const email = `${clerkId}@clerk.local`;
-            const [created] = await db.insert(users).values({
-              username,
-              email,
-            }).returning();
-            dbUserId = created.id;
-          } else {
-            // No clerk context and no placeholder user -> fail early with helpful message
-            throw new TRPCError({
-              code: 'BAD_REQUEST',
-              message: 'No local database user available. Please seed a user or sign in so a database user can be created.',
-            });
-          }
-        }
-        
         const [newPost] = await db
           .insert(posts)
           .values({
             title: input.title,
             content: input.content,
             slug,
-            published: input.published,
-            authorId: dbUserId,
+            ...resolvePublishState(input),
+            autoApproveComments: input.autoApproveComments,
+            seoTitle: input.seoTitle ?? null,
+            seoDescription: input.seoDescription ?? null,
+            authorId: ctx.user.id,
           })
           .returning();
 
@@ -257,6 +946,21 @@ export const postRouter = createTRPCRouter({
           );
         }
 
+        // Add tags if provided
+        if (input.tagIds && input.tagIds.length > 0) {
+          await setPostTags(newPost.id, input.tagIds);
+        }
+
+        await recordRevision(newPost, ctx.user.id);
+
+        // The autosaved new-post draft has been saved for real
+        await db.delete(postDrafts).where(draftCondition(ctx.user.id, null));
+        revalidatePostPages(newPost.slug);
+
+        if (newPost.published) {
+          await notifyPostsPublished([newPost]);
+        }
+
           return newPost;
         } catch (error: any) {
           // Log full error server-side for easier debugging in dev
@@ -266,11 +970,11 @@ export const postRouter = createTRPCRouter({
           const code = error?.code || (error?.cause && error.cause.code) || null;
 
           if (code === '23503') {
-            // foreign key violation - likely missing author or category
+            // foreign key violation - likely a category that no longer exists
             throw new TRPCError({
               code: 'BAD_REQUEST',
               message:
-                'Failed to create post: related record not found (author or category). Ensure your local DB has a matching user and categories.',
+                'Failed to create post: related record not found. Make sure the selected categories still exist.',
               cause: error,
             });
           }
@@ -298,15 +1002,21 @@ export const postRouter = createTRPCRouter({
         }
     }),
 
-  // Update post (requires authentication)
-  update: protectedProcedure
+  // Update post (owner, or editor and above)
+  update: authorProcedure
     .input(updatePostSchema)
     .mutation(async ({ input, ctx }) => {
       try {
-        const { id, categoryIds, ...updateData } = input;
+        const { id, categoryIds, tagIds, published, scheduledAt, ...updateData } = input;
+
+        const existingPost = await assertCanManagePost(id, ctx.user);
+        await ensureBaselineRevision(existingPost);
         
         // Update slug if title is being updated
-        const updatePayload: Partial<Post> = { ...updateData };
+        const updatePayload: Partial<Post> = {
+          ...updateData,
+          ...resolvePublishState({ published, scheduledAt }, existingPost),
+        };
         if (updateData.title) {
           updatePayload.slug = generateSlug(updateData.title);
         }
@@ -344,6 +1054,20 @@ export const postRouter = createTRPCRouter({
           }
         }
 
+        // Replace tags if provided
+        if (tagIds !== undefined) {
+          await setPostTags(id, tagIds);
+        }
+
+        await recordRevision(updatedPost, ctx.user.id);
+        await db.delete(postDrafts).where(draftCondition(ctx.user.id, id));
+        revalidatePostPages(existingPost.slug, updatedPost.slug);
+
+        // Only the first time it goes live; unpublishing keeps publishedAt
+        if (updatedPost.published && !existingPost.publishedAt) {
+          await notifyPostsPublished([updatedPost]);
+        }
+
         return updatedPost;
       } catch (error) {
         if (error instanceof TRPCError) throw error;
@@ -355,11 +1079,219 @@ export const postRouter = createTRPCRouter({
       }
     }),
 
-  // Delete post (requires authentication)
-  delete: protectedProcedure
+  /**
+   * The signed-in user's autosaved draft for a post, or for a new post when postId is null
+   */
+  getDraft: authorProcedure
+    .input(draftTargetSchema)
+    .query(async ({ input, ctx }): Promise<ServerDraft | null> => {
+      try {
+        if (input.postId !== null) {
+          await assertCanManagePost(input.postId, ctx.user);
+        }
+
+        const [row] = await db
+          .select()
+          .from(postDrafts)
+          .where(draftCondition(ctx.user.id, input.postId))
+          .limit(1);
+
+        return row ? toServerDraft(row) : null;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch draft',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Autosave the editor state for a post
+   * If the stored draft changed since baseUpdatedAt (e.g. saved from another device) nothing is written
+   * and the newer draft is returned as a conflict, unless force is set
+   */
+  saveDraft: authorProcedure
+    .input(saveDraftSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (input.postId !== null) {
+          await assertCanManagePost(input.postId, ctx.user);
+        }
+
+        return await db.transaction(async (tx) => {
+          const [existing] = await tx
+            .select()
+            .from(postDrafts)
+            .where(draftCondition(ctx.user.id, input.postId))
+            .limit(1)
+            .for('update');
+
+          const isNewer = existing && (!input.baseUpdatedAt || existing.updatedAt > input.baseUpdatedAt);
+          if (existing && isNewer && !input.force) {
+            return { status: 'conflict' as const, ...toServerDraft(existing) };
+          }
+
+          const updatedAt = new Date();
+
+          if (existing) {
+            await tx
+              .update(postDrafts)
+              .set({ data: input.draft, updatedAt })
+              .where(eq(postDrafts.id, existing.id));
+          } else {
+            // Two first saves can race past the select; the later one simply wins
+            await tx
+              .insert(postDrafts)
+              .values({
+                userId: ctx.user.id,
+                postId: input.postId,
+                data: input.draft,
+                updatedAt,
+              })
+              .onConflictDoUpdate(input.postId === null
+                ? { target: postDrafts.userId, targetWhere: sql`post_id IS NULL`, set: { data: input.draft, updatedAt } }
+                : { target: [postDrafts.userId, postDrafts.postId], set: { data: input.draft, updatedAt } });
+          }
+
+          return { status: 'saved' as const, updatedAt };
+        });
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to save draft',
+          cause: error,
+        });
+      }
+    }),
+
+  // Throw away the signed-in user's autosaved draft for a post
+  discardDraft: authorProcedure
+    .input(draftTargetSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await db.delete(postDrafts).where(draftCondition(ctx.user.id, input.postId));
+        return { success: true, message: 'Draft discarded' };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to discard draft',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Revision history for a post, newest first (owner, or editor and above)
+   * Includes title and content so any two revisions can be diffed on the client
+   */
+  getRevisions: authorProcedure
+    .input(getRevisionsSchema)
+    .query(async ({ input, ctx }): Promise<PostRevisionWithEditor[]> => {
+      try {
+        await assertCanManagePost(input.postId, ctx.user);
+
+        return await db
+          .select({
+            id: postRevisions.id,
+            postId: postRevisions.postId,
+            editorId: postRevisions.editorId,
+            revisionNumber: postRevisions.revisionNumber,
+            title: postRevisions.title,
+            content: postRevisions.content,
+            excerpt: postRevisions.excerpt,
+            note: postRevisions.note,
+            createdAt: postRevisions.createdAt,
+            editor: {
+              id: users.id,
+              username: users.username,
+              firstName: users.firstName,
+              lastName: users.lastName,
+              avatar: users.avatar,
+            },
+          })
+          .from(postRevisions)
+          .leftJoin(users, eq(postRevisions.editorId, users.id))
+          .where(eq(postRevisions.postId, input.postId))
+          .orderBy(desc(postRevisions.revisionNumber))
+          .limit(input.limit);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch revisions',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Restore a post's title, content and excerpt from an earlier revision
+   * The restore is itself saved as a new revision, so it can be undone too
+   */
+  restoreRevision: authorProcedure
+    .input(restoreRevisionSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const [revision] = await db
+          .select()
+          .from(postRevisions)
+          .where(eq(postRevisions.id, input.revisionId))
+          .limit(1);
+
+        if (!revision) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Revision not found',
+          });
+        }
+
+        const existingPost = await assertCanManagePost(revision.postId, ctx.user);
+        await ensureBaselineRevision(existingPost);
+
+        const [restoredPost] = await db
+          .update(posts)
+          .set({
+            title: revision.title,
+            content: revision.content,
+            excerpt: revision.excerpt,
+            // Same rule as update: the slug follows the title
+            slug: revision.title === existingPost.title ? existingPost.slug : generateSlug(revision.title),
+            updatedAt: new Date(),
+          })
+          .where(eq(posts.id, revision.postId))
+          .returning();
+
+        if (!restoredPost) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Post not found',
+          });
+        }
+
+        await recordRevision(restoredPost, ctx.user.id, `Restored from revision ${revision.revisionNumber}`);
+        revalidatePostPages(existingPost.slug, restoredPost.slug);
+
+        return restoredPost;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to restore revision',
+          cause: error,
+        });
+      }
+    }),
+
+  // Delete post (owner, or editor and above)
+  delete: authorProcedure
     .input(idSchema)
     .mutation(async ({ input, ctx }) => {
       try {
+        await assertCanManagePost(input, ctx.user);
+
         const [deletedPost] = await db
           .delete(posts)
           .where(eq(posts.id, input))
@@ -372,6 +1304,8 @@ export const postRouter = createTRPCRouter({
           });
         }
 
+        revalidatePostPages(deletedPost.slug);
+
         return deletedPost;
       } catch (error) {
         if (error instanceof TRPCError) throw error;
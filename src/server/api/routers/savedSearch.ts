@@ -0,0 +1,112 @@
+// Saved Search Router - named post listing filters, private to each user
+import { eq, and, asc, count } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db";
+import { savedSearches } from "@/lib/schema";
+import { saveSearchSchema, idSchema } from "@/lib/validations";
+import { filtersFromSearchParams, filtersToQueryString } from "@/lib/filter-params";
+
+// Plenty for a personal list, and keeps the menu usable
+const MAX_SAVED_SEARCHES = 50;
+
+export const savedSearchRouter = createTRPCRouter({
+  // The signed-in user's saved searches, by name
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await db
+          .select({
+            id: savedSearches.id,
+            name: savedSearches.name,
+            query: savedSearches.query,
+            updatedAt: savedSearches.updatedAt,
+          })
+          .from(savedSearches)
+          .where(eq(savedSearches.userId, ctx.user.id))
+          .orderBy(asc(savedSearches.name));
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch saved searches',
+          cause: error,
+        });
+      }
+    }),
+
+  // Save the current filters under a name, replacing any search already saved with that name
+  save: protectedProcedure
+    .input(saveSearchSchema)
+    .mutation(async ({ input, ctx }) => {
+      // Re-serialized so only well-formed filters are stored
+      const query = filtersToQueryString(filtersFromSearchParams(new URLSearchParams(input.query)));
+
+      try {
+        const [existing] = await db
+          .select({ id: savedSearches.id })
+          .from(savedSearches)
+          .where(and(eq(savedSearches.userId, ctx.user.id), eq(savedSearches.name, input.name)))
+          .limit(1);
+
+        if (!existing) {
+          const [total] = await db
+            .select({ count: count() })
+            .from(savedSearches)
+            .where(eq(savedSearches.userId, ctx.user.id));
+
+          if ((total?.count ?? 0) >= MAX_SAVED_SEARCHES) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `You can save up to ${MAX_SAVED_SEARCHES} searches - delete one first`,
+            });
+          }
+        }
+
+        const [saved] = await db
+          .insert(savedSearches)
+          .values({ userId: ctx.user.id, name: input.name, query })
+          .onConflictDoUpdate({
+            target: [savedSearches.userId, savedSearches.name],
+            set: { query, updatedAt: new Date() },
+          })
+          .returning();
+
+        return saved!;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to save search',
+          cause: error,
+        });
+      }
+    }),
+
+  // Delete one of the user's saved searches
+  delete: protectedProcedure
+    .input(idSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const [deleted] = await db
+          .delete(savedSearches)
+          .where(and(eq(savedSearches.id, input), eq(savedSearches.userId, ctx.user.id)))
+          .returning({ id: savedSearches.id });
+
+        if (!deleted) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Saved search not found',
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete saved search',
+          cause: error,
+        });
+      }
+    }),
+});
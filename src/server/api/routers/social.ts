@@ -0,0 +1,257 @@
+// Social Router - following authors and tags
+import { and, count, eq } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db";
+import { follows, tags, users } from "@/lib/schema";
+import { followListSchema, followTargetSchema, type FollowTarget } from "@/lib/validations";
+import { keysetAfter, keysetOrderBy, keysetPosition, toCursorPage, type CursorPage, type KeysetSort } from "@/server/pagination";
+import { revalidateAuthorPages } from "@/server/revalidate";
+import { notifyFollowed } from "@/server/notifications";
+import type { FollowedItem, PublicAuthor } from "@/types";
+
+// Newest follows first
+const followSort: KeysetSort = {
+  keys: [
+    { value: follows.createdAt, type: 'timestamp' },
+    { value: follows.id, type: 'integer' },
+  ],
+  direction: 'desc',
+};
+
+const publicAuthorFields = {
+  id: users.id,
+  username: users.username,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  avatar: users.avatar,
+};
+
+// The follow row for an author or a tag, from the follower's side
+const targetCondition = (followerId: number, target: FollowTarget) =>
+  and(
+    eq(follows.followerId, followerId),
+    target.authorId !== undefined ? eq(follows.authorId, target.authorId) : eq(follows.tagId, target.tagId!)
+  );
+
+async function countFollowers(target: FollowTarget): Promise<number> {
+  const [result] = await db
+    .select({ count: count() })
+    .from(follows)
+    .where(target.authorId !== undefined ? eq(follows.authorId, target.authorId) : eq(follows.tagId, target.tagId!));
+
+  return result?.count ?? 0;
+}
+
+/**
+ * Looks up what is about to be followed
+ * @returns The author's username (for revalidating their page), or null for a tag
+ * @throws {TRPCError} NOT_FOUND if the author or tag doesn't exist, BAD_REQUEST for following yourself
+ */
+async function resolveTarget(followerId: number, target: FollowTarget): Promise<string | null> {
+  if (target.authorId !== undefined) {
+    if (target.authorId === followerId) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'You cannot follow yourself',
+      });
+    }
+
+    const [author] = await db
+      .select({ username: users.username })
+      .from(users)
+      .where(and(eq(users.id, target.authorId), eq(users.isActive, true)))
+      .limit(1);
+
+    if (!author) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Author not found',
+      });
+    }
+
+    return author.username;
+  }
+
+  const [tag] = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(eq(tags.id, target.tagId!))
+    .limit(1);
+
+  if (!tag) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Tag not found',
+    });
+  }
+
+  return null;
+}
+
+export const socialRouter = createTRPCRouter({
+  // Follow an author or a tag; following again is a no-op
+  follow: protectedProcedure
+    .input(followTargetSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const username = await resolveTarget(ctx.user.id, input);
+
+        const [inserted] = await db
+          .insert(follows)
+          .values({ followerId: ctx.user.id, authorId: input.authorId, tagId: input.tagId })
+          .onConflictDoNothing()
+          .returning({ id: follows.id });
+
+        if (inserted && input.authorId !== undefined) {
+          await notifyFollowed(ctx.user.id, input.authorId);
+        }
+
+        revalidateAuthorPages(username);
+        return { following: true, followerCount: await countFollowers(input) };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to follow',
+          cause: error,
+        });
+      }
+    }),
+
+  // Stop following an author or a tag
+  unfollow: protectedProcedure
+    .input(followTargetSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const [removed] = await db
+          .delete(follows)
+          .where(targetCondition(ctx.user.id, input))
+          .returning({ authorId: follows.authorId });
+
+        if (removed?.authorId) {
+          const [author] = await db
+            .select({ username: users.username })
+            .from(users)
+            .where(eq(users.id, removed.authorId))
+            .limit(1);
+          revalidateAuthorPages(author?.username);
+        }
+
+        return { following: false, followerCount: await countFollowers(input) };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to unfollow',
+          cause: error,
+        });
+      }
+    }),
+
+  // Whether the signed-in user follows an author or a tag
+  isFollowing: protectedProcedure
+    .input(followTargetSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        const [existing] = await db
+          .select({ id: follows.id })
+          .from(follows)
+          .where(targetCondition(ctx.user.id, input))
+          .limit(1);
+
+        return !!existing;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to check follow',
+          cause: error,
+        });
+      }
+    }),
+
+  // A page of the users following an author, most recent first
+  followers: publicProcedure
+    .input(followListSchema)
+    .query(async ({ input }): Promise<CursorPage<PublicAuthor>> => {
+      try {
+        const conditions = [eq(follows.authorId, input.userId), eq(users.isActive, true)];
+        const after = keysetAfter(followSort, input.cursor);
+        if (after) {
+          conditions.push(after);
+        }
+
+        const rows = await db
+          .select({
+            ...publicAuthorFields,
+            position: keysetPosition(followSort),
+          })
+          .from(follows)
+          .innerJoin(users, eq(follows.followerId, users.id))
+          .where(and(...conditions))
+          .orderBy(...keysetOrderBy(followSort))
+          .limit(input.limit + 1);
+
+        return toCursorPage(rows, input.limit);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch followers',
+          cause: error,
+        });
+      }
+    }),
+
+  // A page of the authors and tags a user follows, most recent first
+  following: publicProcedure
+    .input(followListSchema)
+    .query(async ({ input }): Promise<CursorPage<FollowedItem>> => {
+      try {
+        const conditions = [eq(follows.followerId, input.userId)];
+        const after = keysetAfter(followSort, input.cursor);
+        if (after) {
+          conditions.push(after);
+        }
+
+        const rows = await db
+          .select({
+            author: publicAuthorFields,
+            authorActive: users.isActive,
+            tag: {
+              id: tags.id,
+              name: tags.name,
+              slug: tags.slug,
+              color: tags.color,
+            },
+            position: keysetPosition(followSort),
+          })
+          .from(follows)
+          .leftJoin(users, eq(follows.authorId, users.id))
+          .leftJoin(tags, eq(follows.tagId, tags.id))
+          .where(and(...conditions))
+          .orderBy(...keysetOrderBy(followSort))
+          .limit(input.limit + 1);
+
+        const page = toCursorPage(rows, input.limit);
+
+        return {
+          // Deactivated authors keep their place in the paging but aren't shown
+          items: page.items.flatMap((row): FollowedItem[] => {
+            if (row.author && row.authorActive) return [{ type: 'author', author: row.author }];
+            if (row.tag) return [{ type: 'tag', tag: row.tag }];
+            return [];
+          }),
+          nextCursor: page.nextCursor,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch followed authors and tags',
+          cause: error,
+        });
+      }
+    }),
+});
@@ -1,34 +1,53 @@
 // Enhanced Tag Router with comprehensive CRUD operations
 import { z } from "zod";
 import { eq, desc, asc, count, ilike, and, inArray } from "drizzle-orm";
-import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import { createTRPCRouter, publicProcedure, authorProcedure, editorProcedure } from "@/server/api/trpc";
 import { db } from "@/server/db";
 import { tags, postTags, posts } from "@/lib/schema";
 import { TRPCError } from "@trpc/server";
-import { createTagSchema, updateTagSchema } from "@/lib/validations";
+import { createTagSchema, updateTagSchema, cursorSchema } from "@/lib/validations";
+import { keysetAfter, keysetOrderBy, keysetPosition, toCursorPage, type KeysetSort } from "@/server/pagination";
+
+// Postgres types of the sortable tag columns, for reading them back from a cursor
+const tagSortTypes = {
+  name: 'text',
+  usageCount: 'integer',
+  createdAt: 'timestamp',
+} as const;
 
 export const tagRouter = createTRPCRouter({
-  // Get all tags with usage statistics
+  // Get a page of tags with usage statistics, continuing after `cursor`
   getAll: publicProcedure
     .input(z.object({
       search: z.string().optional(),
       sortBy: z.enum(['name', 'usageCount', 'createdAt']).default('name'),
       sortOrder: z.enum(['asc', 'desc']).default('asc'),
       limit: z.number().min(1).max(100).default(50),
-      offset: z.number().min(0).default(0),
+      cursor: cursorSchema,
     }))
     .query(async ({ input }) => {
-      const { search, sortBy, sortOrder, limit, offset } = input;
+      const { search, sortBy, sortOrder, limit, cursor } = input;
       
       const conditions = [];
       if (search) {
         conditions.push(ilike(tags.name, `%${search}%`));
       }
 
-      const orderColumn = tags[sortBy];
-      const orderDirection = sortOrder === 'desc' ? desc(orderColumn) : asc(orderColumn);
+      // Ties on the sort column are broken by id
+      const sort: KeysetSort = {
+        keys: [
+          { value: tags[sortBy], type: tagSortTypes[sortBy] },
+          { value: tags.id, type: 'integer' },
+        ],
+        direction: sortOrder,
+      };
 
       try {
+        const after = keysetAfter(sort, cursor);
+        if (after) {
+          conditions.push(after);
+        }
+
         const results = await db
           .select({
             id: tags.id,
@@ -39,15 +58,16 @@ export const tagRouter = createTRPCRouter({
             usageCount: tags.usageCount,
             createdAt: tags.createdAt,
             updatedAt: tags.updatedAt,
+            position: keysetPosition(sort),
           })
           .from(tags)
           .where(conditions.length > 0 ? and(...conditions) : undefined)
-          .orderBy(orderDirection)
-          .limit(limit)
-          .offset(offset);
+          .orderBy(...keysetOrderBy(sort))
+          .limit(limit + 1);
 
-        return results;
+        return toCursorPage(results, limit);
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to fetch tags',
@@ -84,6 +104,33 @@ export const tagRouter = createTRPCRouter({
       }
     }),
 
+  // Get tags by id, e.g. to show the tags saved in an editor draft
+  getByIds: publicProcedure
+    .input(z.object({
+      ids: z.array(z.number().int().positive()).max(50),
+    }))
+    .query(async ({ input }) => {
+      if (input.ids.length === 0) return [];
+
+      try {
+        return await db
+          .select({
+            id: tags.id,
+            name: tags.name,
+            slug: tags.slug,
+            color: tags.color,
+          })
+          .from(tags)
+          .where(inArray(tags.id, input.ids));
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch tags',
+          cause: error,
+        });
+      }
+    }),
+
   // Get tag by slug with posts
   getBySlug: publicProcedure
     .input(z.object({
@@ -111,7 +158,7 @@ export const tagRouter = createTRPCRouter({
           const [postCount] = await db
             .select({ count: count() })
             .from(postTags)
-            .leftJoin(posts, and(eq(postTags.postId, posts.id), eq(posts.published, true)))
+            .innerJoin(posts, and(eq(postTags.postId, posts.id), eq(posts.published, true)))
             .where(eq(postTags.tagId, result.id));
 
           return {
@@ -131,8 +178,8 @@ export const tagRouter = createTRPCRouter({
       }
     }),
 
-  // Create new tag (protected)
-  create: protectedProcedure
+  // Create new tag (authors can add tags while writing)
+  create: authorProcedure
     .input(createTagSchema)
     .mutation(async ({ input }) => {
       try {
@@ -195,10 +242,11 @@ export const tagRouter = createTRPCRouter({
   /**
    * Update an existing tag with new values.
    * Validates uniqueness of name and generates slug if name changes.
+   * Requires the editor role.
    * @throws {TRPCError} NOT_FOUND if tag doesn't exist
    * @throws {TRPCError} CONFLICT if new name already exists
    */
-  update: protectedProcedure
+  update: editorProcedure
     .input(updateTagSchema)
     .mutation(async ({ input }) => {
       const { id, ...updateData } = input;
@@ -276,8 +324,8 @@ export const tagRouter = createTRPCRouter({
       }
     }),
 
-  // Delete tag (protected)
-  delete: protectedProcedure
+  // Delete tag (editor and above)
+  delete: editorProcedure
     .input(z.object({
       id: z.number().positive(),
     }))
@@ -325,8 +373,8 @@ export const tagRouter = createTRPCRouter({
       }
     }),
 
-  // Bulk operations
-  bulkDelete: protectedProcedure
+  // Bulk operations (editor and above)
+  bulkDelete: editorProcedure
     .input(z.object({
       ids: z.array(z.number().positive()).min(1).max(50),
     }))
@@ -1,20 +1,33 @@
 // User Router with comprehensive user management
 import { z } from "zod";
-import { eq, desc, asc, count, ilike, and, or } from "drizzle-orm";
-import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import { eq, desc, asc, count, ilike, and, or, sql } from "drizzle-orm";
+import { createTRPCRouter, publicProcedure, protectedProcedure, adminProcedure } from "@/server/api/trpc";
 import { db } from "@/server/db";
-import { users, posts, comments } from "@/lib/schema";
+import { users, posts, comments, follows } from "@/lib/schema";
 import { TRPCError } from "@trpc/server";
-import { createUserSchema, updateUserSchema } from "@/lib/validations";
+import { createUserSchema, updateUserSchema, updateUserRoleSchema, cursorSchema } from "@/lib/validations";
+import { keysetAfter, keysetOrderBy, keysetPosition, toCursorPage, type KeysetSort } from "@/server/pagination";
+import { hasRole } from "@/lib/permissions";
+import { revalidateAuthorPages } from "@/server/revalidate";
+import type { AuthorProfile } from "@/types";
 
 export const userRouter = createTRPCRouter({
-  // Get user profile with statistics
+  // Get the local user record for the signed-in Clerk user
+  me: protectedProcedure
+    .query(({ ctx }) => {
+      return ctx.user;
+    }),
+
+  /**
+   * Public profile of an active user with statistics, for author pages
+   * Only fields that are safe to show any visitor - no email or account status
+   */
   getProfile: publicProcedure
     .input(z.object({
       id: z.number().positive().optional(),
       username: z.string().min(1).optional(),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ input }): Promise<AuthorProfile> => {
       if (!input.id && !input.username) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
@@ -31,18 +44,16 @@ export const userRouter = createTRPCRouter({
           .select({
             id: users.id,
             username: users.username,
-            email: users.email,
             firstName: users.firstName,
             lastName: users.lastName,
             bio: users.bio,
             avatar: users.avatar,
-            isActive: users.isActive,
-            emailVerified: users.emailVerified,
+            socialLinks: users.socialLinks,
+            role: users.role,
             createdAt: users.createdAt,
-            updatedAt: users.updatedAt,
           })
           .from(users)
-          .where(condition)
+          .where(and(condition, eq(users.isActive, true)))
           .limit(1);
 
         if (!user.length) {
@@ -68,12 +79,22 @@ export const userRouter = createTRPCRouter({
           .from(comments)
           .where(and(eq(comments.authorId, user[0].id), eq(comments.isApproved, true)));
 
+        const [followStats] = await db
+          .select({
+            followerCount: sql<number>`count(*) FILTER (WHERE ${follows.authorId} = ${user[0].id})::int`,
+            followingCount: sql<number>`count(*) FILTER (WHERE ${follows.followerId} = ${user[0].id})::int`,
+          })
+          .from(follows)
+          .where(or(eq(follows.authorId, user[0].id), eq(follows.followerId, user[0].id)));
+
         return {
           ...user[0],
           stats: {
             totalPosts: postStats?.totalPosts || 0,
             publishedPosts: postStats?.publishedPosts || 0,
             totalComments: commentStats?.totalComments || 0,
+            followerCount: followStats?.followerCount || 0,
+            followingCount: followStats?.followingCount || 0,
           },
         };
       } catch (error) {
@@ -86,8 +107,8 @@ export const userRouter = createTRPCRouter({
       }
     }),
 
-  // Get all users with filtering and pagination
-  getAll: protectedProcedure
+  // Get all users with filtering and pagination (admin only)
+  getAll: adminProcedure
     .input(z.object({
       search: z.string().optional(),
       isActive: z.boolean().optional(),
@@ -95,10 +116,10 @@ export const userRouter = createTRPCRouter({
       sortBy: z.enum(['username', 'email', 'createdAt']).default('createdAt'),
       sortOrder: z.enum(['asc', 'desc']).default('desc'),
       limit: z.number().min(1).max(100).default(20),
-      offset: z.number().min(0).default(0),
+      cursor: cursorSchema,
     }))
     .query(async ({ input }) => {
-      const { search, isActive, emailVerified, sortBy, sortOrder, limit, offset } = input;
+      const { search, isActive, emailVerified, sortBy, sortOrder, limit, cursor } = input;
       
       const conditions = [];
       if (search) {
@@ -114,9 +135,18 @@ export const userRouter = createTRPCRouter({
       if (isActive !== undefined) conditions.push(eq(users.isActive, isActive));
       if (emailVerified !== undefined) conditions.push(eq(users.emailVerified, emailVerified));
 
+      // Ties on the sort column are broken by id
+      const sort: KeysetSort = {
+        keys: [
+          { value: users[sortBy], type: sortBy === 'createdAt' ? 'timestamp' : 'text' },
+          { value: users.id, type: 'integer' },
+        ],
+        direction: sortOrder,
+      };
+
       try {
-        const orderColumn = users[sortBy];
-        const orderDirection = sortOrder === 'desc' ? desc(orderColumn) : asc(orderColumn);
+        const after = keysetAfter(sort, cursor);
+        if (after) conditions.push(after);
 
         const results = await db
           .select({
@@ -126,18 +156,20 @@ export const userRouter = createTRPCRouter({
             firstName: users.firstName,
             lastName: users.lastName,
             avatar: users.avatar,
+            role: users.role,
             isActive: users.isActive,
             emailVerified: users.emailVerified,
             createdAt: users.createdAt,
+            position: keysetPosition(sort),
           })
           .from(users)
           .where(conditions.length > 0 ? and(...conditions) : undefined)
-          .orderBy(orderDirection)
-          .limit(limit)
-          .offset(offset);
+          .orderBy(...keysetOrderBy(sort))
+          .limit(limit + 1);
 
-        return results;
+        return toCursorPage(results, limit);
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to fetch users',
@@ -146,8 +178,8 @@ export const userRouter = createTRPCRouter({
       }
     }),
 
-  // Create new user
-  create: protectedProcedure
+  // Create new user (admin only - regular accounts are created on first sign-in)
+  create: adminProcedure
     .input(createUserSchema)
     .mutation(async ({ input }) => {
       try {
@@ -202,12 +234,19 @@ export const userRouter = createTRPCRouter({
       }
     }),
 
-  // Update user
+  // Update user (users can only update their own account unless admin)
   update: protectedProcedure
     .input(updateUserSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       const { id, ...updateData } = input;
 
+      if (id !== ctx.user.id && !hasRole(ctx.user, 'admin')) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only update your own account',
+        });
+      }
+
       try {
         // Check if user exists
         const existing = await db
@@ -264,6 +303,7 @@ export const userRouter = createTRPCRouter({
           .where(eq(users.id, id))
           .returning();
 
+        revalidateAuthorPages(existing[0].username, updatedUser?.username);
         return updatedUser;
       } catch (error) {
         if (error instanceof TRPCError) throw error;
@@ -275,12 +315,19 @@ export const userRouter = createTRPCRouter({
       }
     }),
 
-  // Deactivate user (soft delete)
+  // Deactivate user (soft delete, users can only deactivate their own account unless admin)
   deactivate: protectedProcedure
     .input(z.object({
       id: z.number().positive(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      if (input.id !== ctx.user.id && !hasRole(ctx.user, 'admin')) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only deactivate your own account',
+        });
+      }
+
       try {
         const [updatedUser] = await db
           .update(users)
@@ -309,6 +356,46 @@ export const userRouter = createTRPCRouter({
       }
     }),
 
+  // Change a user's role (admin only)
+  setRole: adminProcedure
+    .input(updateUserRoleSchema)
+    .mutation(async ({ input, ctx }) => {
+      // Prevent admins from locking themselves out
+      if (input.id === ctx.user.id && input.role !== 'admin') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'You cannot remove your own admin role',
+        });
+      }
+
+      try {
+        const [updatedUser] = await db
+          .update(users)
+          .set({
+            role: input.role,
+            updatedAt: new Date(),
+          })
+          .where(eq(users.id, input.id))
+          .returning();
+
+        if (!updatedUser) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'User not found',
+          });
+        }
+
+        return updatedUser;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update user role',
+          cause: error,
+        });
+      }
+    }),
+
   // Get user's posts
   getUserPosts: publicProcedure
     .input(z.object({
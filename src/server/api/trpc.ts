@@ -8,6 +8,9 @@ import { auth } from "@clerk/nextjs/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 import { db } from "@/server/db";
+import { getOrCreateUserFromClerk } from "@/server/auth";
+import { hasRole } from "@/lib/permissions";
+import type { UserRole } from "@/lib/schema";
 
 /**
  * Create context for each request
@@ -26,6 +29,17 @@ export const createTRPCContext = async (opts: { headers: Headers }) => {
   };
 };
 
+/**
+ * Context for server-rendered pages (see @/trpc/server)
+ * Always an anonymous visitor and never reads request headers, so pages using it can be statically cached
+ */
+export const createPublicTRPCContext = async (): Promise<Awaited<ReturnType<typeof createTRPCContext>>> => ({
+  db,
+  userId: null,
+  sessionId: null,
+  headers: new Headers(),
+});
+
 // Initialize tRPC with our config
 const t = initTRPC.context<typeof createTRPCContext>().create({
   transformer: superjson, // Handles dates and other complex types
@@ -50,8 +64,9 @@ export const publicProcedure = t.procedure; // Anyone can call this
 /**
  * Protected procedure - requires user to be signed in with Clerk
  * Throws UNAUTHORIZED error if no valid session exists
+ * Resolves the Clerk identity to our local users row and exposes it as ctx.user
  */
-export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
   // Check if user is authenticated via Clerk
   if (!ctx.userId || !ctx.sessionId) {
     throw new TRPCError({
@@ -60,12 +75,53 @@ export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
     });
   }
 
+  // Look up (or create on first sign-in) the local user for this Clerk id
+  let user;
+  try {
+    user = await getOrCreateUserFromClerk(ctx.userId);
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to resolve local user account',
+      cause: error,
+    });
+  }
+
+  if (!user.isActive) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Your account has been deactivated',
+    });
+  }
+
   // Pass userId to the procedure so it can use it
   return next({
     ctx: {
       ...ctx,
       userId: ctx.userId, // Now TypeScript knows userId is definitely not null
       sessionId: ctx.sessionId,
+      user, // Local users row - use user.id for authorship and ownership
     },
   });
-});
\ No newline at end of file
+});
+
+/**
+ * Role-gated procedures - build on protectedProcedure and require a minimum role
+ * Throws FORBIDDEN if the signed-in user's role is too low
+ */
+const requireRole = (role: UserRole) =>
+  protectedProcedure.use(({ ctx, next }) => {
+    if (!hasRole(ctx.user, role)) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: `This action requires the ${role} role`,
+      });
+    }
+
+    return next();
+  });
+
+export const authorProcedure = requireRole('author'); // Can write and manage own posts
+export const editorProcedure = requireRole('editor'); // Can manage any post, categories and tags
+export const adminProcedure = requireRole('admin'); // Can manage users and roles
@@ -0,0 +1,152 @@
+/**
+ * Maps Clerk identities onto rows in our own `users` table.
+ * Clerk owns sign-in; everything else (posts, comments, ownership) hangs off users.id.
+ */
+
+import { clerkClient } from "@clerk/nextjs/server";
+import { TRPCError } from "@trpc/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/server/db";
+import { users, type User } from "@/lib/schema";
+
+// Usernames must satisfy the users_username min length check and the varchar(50) column
+const USERNAME_MIN_LENGTH = 3;
+const USERNAME_MAX_LENGTH = 50;
+
+/** Turn an arbitrary string into something usable as a username. */
+function normalizeUsername(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, USERNAME_MAX_LENGTH);
+}
+
+/** Find a username that isn't taken yet, appending a short suffix on collisions. */
+async function findAvailableUsername(base: string): Promise<string> {
+  let candidate = base.length >= USERNAME_MIN_LENGTH ? base : `user_${base}`.slice(0, USERNAME_MAX_LENGTH);
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const [taken] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.username, candidate))
+      .limit(1);
+
+    if (!taken) return candidate;
+
+    const suffix = Math.random().toString(36).slice(2, 6);
+    candidate = `${base.slice(0, USERNAME_MAX_LENGTH - suffix.length - 1)}_${suffix}`;
+  }
+
+  throw new Error("Could not generate a unique username");
+}
+
+/**
+ * Look up the local user for a Clerk user id without creating one.
+ * Used by public procedures that only need to know who is asking, if anyone.
+ */
+export async function findUserByClerkId(clerkUserId: string | null | undefined): Promise<User | null> {
+  if (!clerkUserId) return null;
+
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.clerkId, clerkUserId))
+    .limit(1);
+
+  return user?.isActive ? user : null;
+}
+
+/**
+ * Get the local user for a Clerk user id, creating it from the Clerk profile on first sign-in.
+ * If a row already exists with the same email (seeded or created before Clerk ids were stored),
+ * it is linked to the Clerk id instead of creating a duplicate - but only once Clerk has verified
+ * that email, so nobody can claim an account by signing up with someone else's address.
+ * @throws {TRPCError} FORBIDDEN if the email belongs to an existing account and isn't verified yet
+ */
+export async function getOrCreateUserFromClerk(clerkUserId: string): Promise<User> {
+  const [existing] = await db
+    .select()
+    .from(users)
+    .where(eq(users.clerkId, clerkUserId))
+    .limit(1);
+
+  if (existing) return existing;
+
+  const client = await clerkClient();
+  const clerkUser = await client.users.getUser(clerkUserId);
+
+  const primaryEmail =
+    clerkUser.emailAddresses.find((e) => e.id === clerkUser.primaryEmailAddressId) ??
+    clerkUser.emailAddresses[0];
+
+  if (!primaryEmail) {
+    throw new Error("Clerk user has no email address");
+  }
+
+  const email = primaryEmail.emailAddress.toLowerCase();
+  const emailVerified = primaryEmail.verification?.status === "verified";
+
+  // Link a pre-existing account with the same email
+  const [byEmail] = await db
+    .select()
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+
+  if (byEmail) {
+    if (!emailVerified) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Verify your email address to sign in to your existing account',
+      });
+    }
+
+    const [linked] = await db
+      .update(users)
+      .set({
+        clerkId: clerkUserId,
+        emailVerified: true,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, byEmail.id))
+      .returning();
+
+    return linked!;
+  }
+
+  const baseUsername = normalizeUsername(
+    clerkUser.username ?? email.split("@")[0] ?? `user_${clerkUserId.slice(-8)}`
+  );
+  const username = await findAvailableUsername(baseUsername);
+
+  const [created] = await db
+    .insert(users)
+    .values({
+      clerkId: clerkUserId,
+      username,
+      email,
+      firstName: clerkUser.firstName?.slice(0, 50) ?? null,
+      lastName: clerkUser.lastName?.slice(0, 50) ?? null,
+      avatar: clerkUser.imageUrl ?? null,
+      emailVerified,
+    })
+    .onConflictDoNothing({ target: users.clerkId })
+    .returning();
+
+  if (created) return created;
+
+  // Another request created the row between our lookup and insert
+  const [raced] = await db
+    .select()
+    .from(users)
+    .where(eq(users.clerkId, clerkUserId))
+    .limit(1);
+
+  if (!raced) {
+    throw new Error("Failed to create local user for Clerk identity");
+  }
+
+  return raced;
+}
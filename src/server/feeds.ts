@@ -0,0 +1,153 @@
+/**
+ * Loads feed contents for the /feed route handlers.
+ * Each scope (whole site, category, tag, author) resolves to a PostQueries filter
+ * and a title; rendering to RSS or Atom lives in @/lib/feed.
+ */
+
+import { and, eq } from "drizzle-orm";
+import { db } from "@/server/db";
+import { categories, tags, users } from "@/lib/schema";
+import { PostQueries } from "@/lib/db-utils";
+import { FEED_CONTENT_TYPES, renderAtom, renderRss, type Feed, type FeedFormat } from "@/lib/feed";
+import { SITE_DESCRIPTION, SITE_NAME, absoluteUrl, postPath } from "@/lib/site";
+import { extractPreview } from "@/lib/utils";
+
+// Most recent posts per feed
+const FEED_ITEM_LIMIT = 20;
+
+export type FeedScope =
+  | { type: "site" }
+  | { type: "category"; slug: string }
+  | { type: "tag"; slug: string }
+  | { type: "author"; username: string };
+
+type PostFilter = Parameters<typeof PostQueries.getPostsWithDetails>[0];
+
+interface ResolvedScope {
+  title: string;
+  description: string;
+  path: string; // Feed path without the format segment
+  filter: PostFilter;
+}
+
+// Look up the category, tag or author behind a scope; null when it doesn't exist
+async function resolveScope(scope: FeedScope): Promise<ResolvedScope | null> {
+  switch (scope.type) {
+    case "site":
+      return { title: SITE_NAME, description: SITE_DESCRIPTION, path: "/feed", filter: {} };
+
+    case "category": {
+      const [category] = await db
+        .select({ id: categories.id, name: categories.name, description: categories.description })
+        .from(categories)
+        .where(and(eq(categories.slug, scope.slug), eq(categories.isActive, true)))
+        .limit(1);
+      if (!category) return null;
+      return {
+        title: `${category.name} - ${SITE_NAME}`,
+        description: category.description || `Posts in ${category.name}`,
+        path: `/feed/category/${scope.slug}`,
+        filter: { categoryId: category.id },
+      };
+    }
+
+    case "tag": {
+      const [tag] = await db
+        .select({ id: tags.id, name: tags.name, description: tags.description })
+        .from(tags)
+        .where(eq(tags.slug, scope.slug))
+        .limit(1);
+      if (!tag) return null;
+      return {
+        title: `#${tag.name} - ${SITE_NAME}`,
+        description: tag.description || `Posts tagged ${tag.name}`,
+        path: `/feed/tag/${scope.slug}`,
+        filter: { tagId: tag.id },
+      };
+    }
+
+    case "author": {
+      const [author] = await db
+        .select({ id: users.id, username: users.username, firstName: users.firstName, lastName: users.lastName })
+        .from(users)
+        .where(and(eq(users.username, scope.username), eq(users.isActive, true)))
+        .limit(1);
+      if (!author) return null;
+      const name = [author.firstName, author.lastName].filter(Boolean).join(" ") || author.username;
+      return {
+        title: `${name} - ${SITE_NAME}`,
+        description: `Posts by ${name}`,
+        path: `/feed/author/${scope.username}`,
+        filter: { authorId: author.id },
+      };
+    }
+  }
+}
+
+/**
+ * Build a feed for a scope
+ * @param fullContent - Include each post's full HTML instead of only the excerpt
+ * @returns The feed, or null when the category, tag or author doesn't exist
+ */
+export async function buildFeed(scope: FeedScope, format: FeedFormat, fullContent: boolean): Promise<Feed | null> {
+  const resolved = await resolveScope(scope);
+  if (!resolved) return null;
+
+  const posts = await PostQueries.getPostsWithDetails({
+    ...resolved.filter,
+    published: true,
+    orderBy: "publishedAt",
+    limit: FEED_ITEM_LIMIT,
+  });
+
+  const items = posts.map((post) => ({
+    title: post.title,
+    url: absoluteUrl(postPath(post.slug)),
+    summary: post.excerpt || extractPreview(post.content ?? ""),
+    contentHtml: fullContent ? post.content ?? "" : undefined,
+    author: [post.author?.firstName, post.author?.lastName].filter(Boolean).join(" ") || post.author?.username || "Unknown",
+    categories: post.postCategories.map(({ category }) => category.name),
+    publishedAt: post.publishedAt ?? post.createdAt,
+    updatedAt: post.updatedAt,
+  }));
+
+  return {
+    title: resolved.title,
+    description: resolved.description,
+    url: absoluteUrl("/posts"),
+    feedUrl: absoluteUrl(`${resolved.path}/${format}.xml${fullContent ? "?content=full" : ""}`),
+    updatedAt: items.length > 0
+      ? items.reduce((latest, item) => (item.updatedAt > latest ? item.updatedAt : latest), items[0]!.updatedAt)
+      : new Date(),
+    items,
+  };
+}
+
+/**
+ * Shared GET handler body for every feed route
+ * `?content=full` switches from excerpts to full post HTML
+ */
+export async function feedResponse(req: Request, scope: FeedScope, format: FeedFormat | null): Promise<Response> {
+  if (!format) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  try {
+    const fullContent = new URL(req.url).searchParams.get("content") === "full";
+    const feed = await buildFeed(scope, format, fullContent);
+    if (!feed) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    return new Response(format === "rss" ? renderRss(feed) : renderAtom(feed), {
+      headers: {
+        "Content-Type": FEED_CONTENT_TYPES[format],
+        // Feed readers poll often; let the CDN absorb it
+        "Cache-Control": "public, max-age=0, s-maxage=600, stale-while-revalidate=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Feed generation failed:", error);
+    return new Response("Failed to generate feed", { status: 500 });
+  }
+}
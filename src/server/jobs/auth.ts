@@ -0,0 +1,10 @@
+/**
+ * Access check shared by the /api/jobs endpoints.
+ * Requires `Authorization: Bearer $CRON_SECRET`; without CRON_SECRET jobs only run in development.
+ */
+export function isAuthorizedJobRequest(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  return secret
+    ? req.headers.get("authorization") === `Bearer ${secret}`
+    : process.env.NODE_ENV === "development";
+}
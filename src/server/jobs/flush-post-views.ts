@@ -0,0 +1,55 @@
+/**
+ * Folds recorded post views into posts.viewCount and the daily analytics rollups.
+ * Views are written as separate rows so a popular post doesn't serialize every reader
+ * on one counter row; this adds them up in a single statement per run.
+ * Triggered by /api/jobs/flush-post-views, and opportunistically by post.recordView.
+ */
+
+import { and, eq, lt, sql } from "drizzle-orm";
+import { db } from "@/server/db";
+import { posts, postViews, postViewsDaily, postReferrersDaily } from "@/lib/schema";
+
+/**
+ * Add every uncounted view and read to its post's viewCount and daily totals,
+ * then drop rows whose dedupe window has passed
+ * Concurrent runs are safe: a view row is claimed by whichever run marks it counted first
+ * @param windowStart - Start of the current dedupe window; rows from earlier windows are deleted
+ * @returns How many views were added
+ */
+export async function flushPostViews(windowStart: Date): Promise<number> {
+  // Every data-modifying CTE runs to completion, whether or not the final statement reads it
+  const rows = await db.execute<{ views: number }>(sql`
+    WITH flushed AS (
+      UPDATE ${postViews} SET counted = true WHERE counted = false
+      -- created_at holds the database's local time (it defaults to now()), so convert it to a UTC day
+      RETURNING post_id, kind, referrer_host, (created_at::timestamptz AT TIME ZONE 'UTC')::date AS day
+    ), daily AS (
+      INSERT INTO ${postViewsDaily} (post_id, day, views, reads)
+      SELECT post_id, day, count(*) FILTER (WHERE kind = 'view'), count(*) FILTER (WHERE kind = 'read')
+      FROM flushed GROUP BY post_id, day
+      ON CONFLICT (post_id, day) DO UPDATE SET
+        views = ${postViewsDaily}.views + excluded.views,
+        reads = ${postViewsDaily}.reads + excluded.reads
+    ), referrers AS (
+      INSERT INTO ${postReferrersDaily} (post_id, day, referrer_host, views)
+      SELECT post_id, day, referrer_host, count(*)
+      FROM flushed WHERE kind = 'view' AND referrer_host IS NOT NULL
+      GROUP BY post_id, day, referrer_host
+      ON CONFLICT (post_id, day, referrer_host) DO UPDATE SET
+        views = ${postReferrersDaily}.views + excluded.views
+    ), totals AS (
+      SELECT post_id, count(*)::int AS views FROM flushed WHERE kind = 'view' GROUP BY post_id
+    )
+    UPDATE ${posts} SET view_count = view_count + totals.views
+    FROM totals
+    WHERE ${posts.id} = totals.post_id
+    RETURNING totals.views
+  `);
+
+  // Counted rows are only needed to spot repeat views within their own window
+  await db
+    .delete(postViews)
+    .where(and(eq(postViews.counted, true), lt(postViews.windowStart, windowStart)));
+
+  return Array.from(rows).reduce((total, row) => total + Number(row.views), 0);
+}
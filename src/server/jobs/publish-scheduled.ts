@@ -0,0 +1,49 @@
+/**
+ * Promotes scheduled posts whose publish time has passed.
+ * Safe to run as often as you like - each post is only promoted once.
+ * Triggered by /api/jobs/publish-scheduled (e.g. from a cron service, or curl locally).
+ */
+
+import { and, eq, isNotNull, lte, sql } from "drizzle-orm";
+import { db } from "@/server/db";
+import { posts } from "@/lib/schema";
+import { revalidatePostPages } from "@/server/revalidate";
+import { notifyPostsPublished } from "@/server/notifications";
+
+/**
+ * Publish every scheduled post that is due
+ * publishedAt is set to the scheduled time rather than the time the job happened to run
+ * @param now - Cut-off time, defaults to the current time
+ * @returns The posts that were published
+ */
+export async function publishDuePosts(now: Date = new Date()) {
+  const published = await db
+    .update(posts)
+    .set({
+      published: true,
+      publishedAt: sql`${posts.scheduledAt}`,
+      scheduledAt: null,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(posts.published, false),
+        isNotNull(posts.scheduledAt),
+        lte(posts.scheduledAt, now)
+      )
+    )
+    .returning({
+      id: posts.id,
+      title: posts.title,
+      slug: posts.slug,
+      authorId: posts.authorId,
+      publishedAt: posts.publishedAt,
+    });
+
+  if (published.length > 0) {
+    revalidatePostPages(...published.map((post) => post.slug));
+    await notifyPostsPublished(published);
+  }
+
+  return published;
+}
@@ -0,0 +1,110 @@
+/**
+ * In-app notifications.
+ * Written when something happens that a user would want to hear about, and read through the
+ * notification router by the bell in the navbar. Nobody is notified about their own actions.
+ * Notifying is a side effect: a failure is logged and never fails the action that caused it.
+ */
+
+import { and, eq, inArray, ne, or } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "@/server/db";
+import { comments, follows, notifications, postTags, posts, type NewNotification } from "@/lib/schema";
+
+// Keeps a single insert well under Postgres' parameter limit for authors with many followers
+const INSERT_BATCH_SIZE = 1000;
+
+const parentComments = alias(comments, "parent_comments");
+
+async function deliver(rows: NewNotification[]) {
+  const deliverable = rows.filter((row) => row.userId !== row.actorId);
+
+  for (let start = 0; start < deliverable.length; start += INSERT_BATCH_SIZE) {
+    await db.insert(notifications).values(deliverable.slice(start, start + INSERT_BATCH_SIZE));
+  }
+}
+
+/**
+ * Tell the post author, and the parent comment's author for replies, about comments that just became visible
+ * Call when comments are created already approved, or when they're approved in moderation
+ * @param commentIds - The comments that became visible
+ * @param seenBy - A user who has already seen them (the approving moderator), left out of the recipients
+ */
+export async function notifyCommentsPublished(commentIds: number[], seenBy?: number) {
+  if (commentIds.length === 0) return;
+
+  try {
+    const rows = await db
+      .select({
+        id: comments.id,
+        postId: comments.postId,
+        authorId: comments.authorId,
+        postAuthorId: posts.authorId,
+        parentAuthorId: parentComments.authorId,
+      })
+      .from(comments)
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .leftJoin(parentComments, and(eq(comments.parentId, parentComments.id), eq(parentComments.isDeleted, false)))
+      .where(inArray(comments.id, commentIds));
+
+    await deliver(rows.flatMap((comment) => {
+      const event = { actorId: comment.authorId, postId: comment.postId, commentId: comment.id };
+      const notified: NewNotification[] = [];
+
+      if (comment.parentAuthorId !== null && comment.parentAuthorId !== seenBy) {
+        notified.push({ ...event, userId: comment.parentAuthorId, type: "reply" });
+      }
+      // A reply to the post author's own comment already reached them as a reply
+      if (comment.postAuthorId !== comment.parentAuthorId && comment.postAuthorId !== seenBy) {
+        notified.push({ ...event, userId: comment.postAuthorId, type: "comment" });
+      }
+
+      return notified;
+    }));
+  } catch (error) {
+    console.error("Comment notifications failed:", error);
+  }
+}
+
+/**
+ * Tell an author they have a new follower
+ * @param followerId - The user who started following
+ * @param authorId - The author they followed
+ */
+export async function notifyFollowed(followerId: number, authorId: number) {
+  try {
+    await deliver([{ userId: authorId, type: "follow", actorId: followerId }]);
+  } catch (error) {
+    console.error("Follow notification failed:", error);
+  }
+}
+
+/**
+ * Tell everyone following the author, or one of the post's tags, about newly published posts
+ * Call only the first time a post goes live, not when a published post is re-saved
+ * @param published - The posts that were just published
+ */
+export async function notifyPostsPublished(published: { id: number; authorId: number }[]) {
+  try {
+    for (const post of published) {
+      const followers = await db
+        .selectDistinct({ followerId: follows.followerId })
+        .from(follows)
+        .where(and(
+          or(
+            eq(follows.authorId, post.authorId),
+            inArray(follows.tagId, db.select({ tagId: postTags.tagId }).from(postTags).where(eq(postTags.postId, post.id)))
+          ),
+          ne(follows.followerId, post.authorId)
+        ));
+
+      await deliver(followers.map(({ followerId }) => ({
+        userId: followerId,
+        type: "post_published",
+        actorId: post.authorId,
+        postId: post.id,
+      })));
+    }
+  } catch (error) {
+    console.error("Post published notifications failed:", error);
+  }
+}
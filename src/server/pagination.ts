@@ -0,0 +1,84 @@
+/**
+ * Keyset (cursor) pagination.
+ * A cursor is the sort position of the last row on a page. The next page starts strictly
+ * after it, so rows don't shift or repeat between pages when posts are added or removed,
+ * and deep pages cost the same as the first one.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { asc, desc, sql, type Column, type SQL } from "drizzle-orm";
+
+export type SortDirection = "asc" | "desc";
+
+/**
+ * How a listing is ordered, most significant key first
+ * The last key must be unique (usually the id) so the order is total, and no key may be
+ * null - wrap nullable columns in coalesce()
+ */
+export interface KeysetSort {
+  keys: { value: Column | SQL; type: "timestamp" | "integer" | "real" | "text" }[];
+  direction: SortDirection;
+}
+
+/** A page of results and the cursor for the one after it (null on the last page). */
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/** ORDER BY clauses for a keyset sort. */
+export const keysetOrderBy = (sort: KeysetSort): SQL[] =>
+  sort.keys.map((key) => (sort.direction === "asc" ? asc(key.value) : desc(key.value)));
+
+/**
+ * Column to select with every row: its position in the sort, used to build the next cursor
+ * Values travel as Postgres text so timestamps keep their microseconds
+ */
+export const keysetPosition = (sort: KeysetSort) =>
+  sql<string>`json_build_array(${sql.join(sort.keys.map((key) => sql`(${key.value})::text`), sql`, `)})::text`;
+
+/**
+ * Condition selecting the rows after a cursor, or undefined for the first page
+ * @throws {TRPCError} BAD_REQUEST if the cursor is malformed or from a different sort
+ */
+export function keysetAfter(sort: KeysetSort, cursor: string | null | undefined): SQL | undefined {
+  if (!cursor) return undefined;
+
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    values = null;
+  }
+
+  if (!Array.isArray(values) || values.length !== sort.keys.length || !values.every((value) => typeof value === "string")) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Invalid cursor',
+    });
+  }
+
+  const columns = sql.join(sort.keys.map((key) => sql`${key.value}`), sql`, `);
+  const positions = sql.join(
+    sort.keys.map((key, index) => sql`${values[index]}::${sql.raw(key.type)}`),
+    sql`, `
+  );
+
+  return sort.direction === "asc"
+    ? sql`(${columns}) > (${positions})`
+    : sql`(${columns}) < (${positions})`;
+}
+
+/**
+ * Turns `limit + 1` rows fetched with keysetPosition() into a page
+ * The extra row only tells us whether another page exists
+ */
+export function toCursorPage<T extends { position: string }>(rows: T[], limit: number): CursorPage<Omit<T, "position">> {
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    items: pageRows.map(({ position: _position, ...item }) => item),
+    nextCursor: rows.length > limit && last ? Buffer.from(last.position, "utf8").toString("base64url") : null,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * On-demand revalidation of the statically cached public pages.
+ * Call after anything that changes what a reader sees: saving, publishing or deleting a post,
+ * or editing the category tree.
+ */
+
+import { revalidatePath } from "next/cache";
+import { authorPath, postPath } from "@/lib/site";
+
+/**
+ * Refresh the home page, the post listing and the given post pages
+ * @param slugs - Slugs of the affected posts; pass both the old and new slug when a post was renamed
+ */
+export function revalidatePostPages(...slugs: (string | null | undefined)[]) {
+  revalidatePath("/");
+  revalidatePath("/posts");
+  revalidatePath("/categories/[slug]", "page");
+  revalidatePath("/tags/[slug]", "page");
+  revalidatePath("/authors/[username]", "page");
+
+  for (const slug of new Set(slugs)) {
+    if (slug) revalidatePath(postPath(slug));
+  }
+}
+
+// Refresh every category landing page - a rename or move shows up in breadcrumbs and subcategory lists
+export function revalidateCategoryPages() {
+  revalidatePath("/categories/[slug]", "page");
+}
+
+/**
+ * Refresh author pages after a profile change
+ * @param usernames - Pass both the old and new username when it changed
+ */
+export function revalidateAuthorPages(...usernames: (string | null | undefined)[]) {
+  for (const username of new Set(usernames)) {
+    if (username) revalidatePath(authorPath(username));
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Loads what /posts/[slug] needs for its <head>: metadata, Open Graph and JSON-LD.
+ * Only published posts are described - drafts and scheduled posts stay out of search results.
+ */
+
+import { cache } from "react";
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "@/server/db";
+import { categories, postCategories, posts, postTags, tags, users } from "@/lib/schema";
+import type { PostSeo } from "@/lib/seo";
+
+/**
+ * A published post with its author, categories and tags, or null
+ * Cached per request so generateMetadata and the page share one lookup
+ */
+export const getPublishedPostSeo = cache(async (slug: string): Promise<PostSeo | null> => {
+  const [row] = await db
+    .select({
+      id: posts.id,
+      title: posts.title,
+      slug: posts.slug,
+      content: posts.content,
+      excerpt: posts.excerpt,
+      seoTitle: posts.seoTitle,
+      seoDescription: posts.seoDescription,
+      publishedAt: posts.publishedAt,
+      createdAt: posts.createdAt,
+      updatedAt: posts.updatedAt,
+      author: {
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      },
+    })
+    .from(posts)
+    .innerJoin(users, eq(posts.authorId, users.id))
+    .where(and(eq(posts.slug, slug), eq(posts.published, true)))
+    .limit(1);
+
+  if (!row) return null;
+
+  const [categoryRows, tagRows] = await Promise.all([
+    db
+      .select({ name: categories.name })
+      .from(postCategories)
+      .innerJoin(categories, eq(postCategories.categoryId, categories.id))
+      .where(eq(postCategories.postId, row.id))
+      .orderBy(asc(categories.name)),
+    db
+      .select({ name: tags.name })
+      .from(postTags)
+      .innerJoin(tags, eq(postTags.tagId, tags.id))
+      .where(eq(postTags.postId, row.id))
+      .orderBy(asc(tags.name)),
+  ]);
+
+  return {
+    ...row,
+    categories: categoryRows.map((category) => category.name),
+    tags: tagRows.map((tag) => tag.name),
+  };
+});
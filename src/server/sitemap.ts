@@ -0,0 +1,126 @@
+/**
+ * Builds sitemap.xml from published content.
+ * Small sites get a single url set; once the URL count passes SITEMAP_URL_LIMIT
+ * /sitemap.xml becomes an index over /sitemaps/pages.xml and /sitemaps/posts-N.xml.
+ */
+
+import { and, asc, count, eq, inArray } from "drizzle-orm";
+import { db } from "@/server/db";
+import { categories, posts, postTags, tags, users } from "@/lib/schema";
+import {
+  SITEMAP_CONTENT_TYPE,
+  SITEMAP_URL_LIMIT,
+  renderSitemapIndex,
+  renderUrlSet,
+  type SitemapEntry,
+} from "@/lib/sitemap";
+import { absoluteUrl, authorPath, categoryPath, postPath, tagPath } from "@/lib/site";
+
+// Listing pages that exist regardless of content
+const STATIC_PATHS = ["/", "/posts"];
+
+const POSTS_SECTION = /^posts-(\d+)\.xml$/;
+
+// Static pages plus category, tag and author pages
+async function getPageEntries(): Promise<SitemapEntry[]> {
+  const publishedPostIds = db.select({ id: posts.id }).from(posts).where(eq(posts.published, true));
+
+  const [categoryRows, tagRows, authorRows] = await Promise.all([
+    db
+      .select({ slug: categories.slug, updatedAt: categories.updatedAt })
+      .from(categories)
+      .where(eq(categories.isActive, true))
+      .orderBy(asc(categories.id)),
+    // Only tags and authors with published posts have anything to show
+    db
+      .select({ slug: tags.slug, updatedAt: tags.updatedAt })
+      .from(tags)
+      .where(inArray(tags.id, db.select({ tagId: postTags.tagId }).from(postTags).where(inArray(postTags.postId, publishedPostIds))))
+      .orderBy(asc(tags.id)),
+    db
+      .select({ username: users.username, updatedAt: users.updatedAt })
+      .from(users)
+      .where(and(
+        eq(users.isActive, true),
+        inArray(users.id, db.select({ authorId: posts.authorId }).from(posts).where(eq(posts.published, true)))
+      ))
+      .orderBy(asc(users.id)),
+  ]);
+
+  return [
+    ...STATIC_PATHS.map((path) => ({ url: absoluteUrl(path) })),
+    ...categoryRows.map((row) => ({ url: absoluteUrl(categoryPath(row.slug)), lastModified: row.updatedAt })),
+    ...tagRows.map((row) => ({ url: absoluteUrl(tagPath(row.slug)), lastModified: row.updatedAt })),
+    ...authorRows.map((row) => ({ url: absoluteUrl(authorPath(row.username)), lastModified: row.updatedAt })),
+  ];
+}
+
+async function countPublishedPosts(): Promise<number> {
+  const [result] = await db.select({ total: count() }).from(posts).where(eq(posts.published, true));
+  return result?.total ?? 0;
+}
+
+async function getPostEntries(offset: number, limit: number): Promise<SitemapEntry[]> {
+  const rows = await db
+    .select({ slug: posts.slug, updatedAt: posts.updatedAt })
+    .from(posts)
+    .where(eq(posts.published, true))
+    .orderBy(asc(posts.id))
+    .limit(limit)
+    .offset(offset);
+
+  return rows.map((row) => ({ url: absoluteUrl(postPath(row.slug)), lastModified: row.updatedAt }));
+}
+
+/** The /sitemap.xml document: a url set, or an index once there are too many URLs for one file. */
+export async function buildSitemap(): Promise<string> {
+  const [pages, postCount] = await Promise.all([getPageEntries(), countPublishedPosts()]);
+
+  if (pages.length + postCount <= SITEMAP_URL_LIMIT) {
+    return renderUrlSet([...pages, ...(await getPostEntries(0, SITEMAP_URL_LIMIT))]);
+  }
+
+  const postFiles = Math.ceil(postCount / SITEMAP_URL_LIMIT);
+  return renderSitemapIndex([
+    { url: absoluteUrl("/sitemaps/pages.xml") },
+    ...Array.from({ length: postFiles }, (_, index) => ({ url: absoluteUrl(`/sitemaps/posts-${index + 1}.xml`) })),
+  ]);
+}
+
+/**
+ * One file of the sitemap index
+ * @param name - `pages.xml` or `posts-N.xml` (1-based)
+ * @returns The url set, or null for an unknown or empty section
+ */
+export async function buildSitemapSection(name: string): Promise<string | null> {
+  if (name === "pages.xml") {
+    return renderUrlSet(await getPageEntries());
+  }
+
+  const match = POSTS_SECTION.exec(name);
+  const page = match ? Number(match[1]) : 0;
+  if (page < 1) return null;
+
+  const entries = await getPostEntries((page - 1) * SITEMAP_URL_LIMIT, SITEMAP_URL_LIMIT);
+  return entries.length > 0 ? renderUrlSet(entries) : null;
+}
+
+/** Shared GET handler body for the sitemap routes. */
+export async function sitemapResponse(build: () => Promise<string | null>): Promise<Response> {
+  try {
+    const body = await build();
+    if (!body) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": SITEMAP_CONTENT_TYPE,
+        "Cache-Control": "public, max-age=0, s-maxage=3600, stale-while-revalidate=86400",
+      },
+    });
+  } catch (error) {
+    console.error("Sitemap generation failed:", error);
+    return new Response("Failed to generate sitemap", { status: 500 });
+  }
+}
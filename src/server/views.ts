@@ -0,0 +1,104 @@
+/**
+ * View counting for posts.
+ * A view (opening a post) and a read (reaching the end of it) are each counted once per
+ * visitor per post per window. Visitors are identified by a salted hash of their IP address
+ * and user agent - no cookies, and no raw IPs stored.
+ */
+
+import { createHash } from "crypto";
+import { db } from "@/server/db";
+import { postViews, type PostViewKind } from "@/lib/schema";
+import { getSiteUrl } from "@/lib/site";
+import { flushPostViews } from "@/server/jobs/flush-post-views";
+
+// Repeat views from the same visitor within this window count once
+export const VIEW_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// How often a server instance folds pending views into posts.viewCount on its own
+const FLUSH_INTERVAL_MS = 60 * 1000;
+
+// Crawlers, link previews, monitoring and scripted clients
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|archiver|facebookexternalhit|embedly|preview|headless|lighthouse|pingdom|uptime|monitor|curl|wget|python-requests|httpclient|axios|node-fetch|go-http-client|java\//i;
+
+let lastFlushAt = 0;
+
+/** Start of the dedupe window containing `now`. */
+export const currentViewWindow = (now: Date = new Date()): Date =>
+  new Date(Math.floor(now.getTime() / VIEW_WINDOW_MS) * VIEW_WINDOW_MS);
+
+/** True for requests that shouldn't count as a reader: known bots and clients with no user agent. */
+export const isBotUserAgent = (userAgent: string | null): boolean =>
+  !userAgent || BOT_USER_AGENT.test(userAgent);
+
+// Clients can send their own X-Forwarded-For, so only the platform's X-Real-IP or the hop our proxy appended is trusted
+const clientIp = (headers: Headers): string =>
+  headers.get("x-real-ip")?.trim() || headers.get("x-forwarded-for")?.split(",").at(-1)?.trim() || "unknown";
+
+/**
+ * Anonymous visitor id for a request
+ * The window is part of the hash so ids can't be linked across windows
+ */
+export const visitorHash = (headers: Headers, windowStart: Date): string =>
+  createHash("sha256")
+    .update([process.env.VIEW_HASH_SALT ?? "", clientIp(headers), headers.get("user-agent") ?? "", windowStart.toISOString()].join("|"))
+    .digest("hex");
+
+const normalizeHost = (host: string): string => host.toLowerCase().replace(/^www\./, "");
+
+/**
+ * Host of the external site a reader arrived from
+ * @returns Null for direct visits, unparseable referrers and links from this site
+ */
+export function referrerHost(referrer: string | null | undefined, headers: Headers): string | null {
+  if (!referrer) return null;
+
+  let url: URL;
+  try {
+    url = new URL(referrer);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  const host = normalizeHost(url.hostname);
+  const ownHosts = [new URL(getSiteUrl()).hostname, headers.get("host")?.split(":")[0] ?? ""].map(normalizeHost);
+
+  return ownHosts.includes(host) ? null : host.slice(0, 255);
+}
+
+/**
+ * Record a view or read of a post, once per visitor per kind per window
+ * Also folds pending views into the counters when this instance hasn't done so for a while
+ * @param options.kind - "view" when the post is opened, "read" when the reader reaches the end
+ * @param options.referrer - The page the reader came from (document.referrer), for views
+ * @returns True if this was new, false for a repeat within the window
+ */
+export async function recordPostView(
+  postId: number,
+  headers: Headers,
+  { kind = "view", referrer }: { kind?: PostViewKind; referrer?: string | null } = {}
+): Promise<boolean> {
+  const windowStart = currentViewWindow();
+
+  const inserted = await db
+    .insert(postViews)
+    .values({
+      postId,
+      visitorHash: visitorHash(headers, windowStart),
+      kind,
+      referrerHost: kind === "view" ? referrerHost(referrer, headers) : null,
+      windowStart,
+    })
+    .onConflictDoNothing()
+    .returning({ id: postViews.id });
+
+  if (Date.now() - lastFlushAt > FLUSH_INTERVAL_MS) {
+    lastFlushAt = Date.now();
+    // Best effort - the flush job picks up anything missed here
+    void flushPostViews(windowStart).catch((error) => {
+      console.error("Flushing post views failed:", error);
+    });
+  }
+
+  return inserted.length > 0;
+}
@@ -7,7 +7,7 @@ import { immer } from "zustand/middleware/immer";
 export type Theme = 'light' | 'dark' | 'system';
 export type ColorScheme = 'blue' | 'green' | 'purple' | 'orange';
 
-// Notification types
+// Notification types - transient client toasts; the bell's notifications come from the notification router
 export interface Notification {
   id: string;
   type: 'success' | 'error' | 'warning' | 'info';
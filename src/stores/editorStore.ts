@@ -1,25 +1,7 @@
 import { create } from "zustand";
 import { devtools, persist, subscribeWithSelector } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
-import type { PostWithCategories } from "@/types";
-
-/**
- * Represents a draft export of editor content.
- * Used for saving/loading editor state to/from local storage or server.
- */
-interface EditorDraft {
-  title: string;
-  content: string;
-  excerpt: string;
-  slug: string;
-  selectedCategoryIds: number[];
-  selectedTagIds: number[];
-  published: boolean;
-  featured: boolean;
-  seoTitle: string;
-  seoDescription: string;
-  timestamp: Date;
-}
+import type { PostWithCategories, EditorDraft } from "@/types";
 
 // Enhanced editor state with comprehensive post editing capabilities
 interface EditorState {
@@ -437,11 +419,11 @@ export const useEditorStore = create<EditorState>()(
               state.slug = post.slug || "";
               // Extract category IDs from the categories array
               state.selectedCategoryIds = post.categories?.map(cat => cat.id) || [];
-              state.selectedTagIds = []; // Tags would need to be loaded separately
+              state.selectedTagIds = post.tags?.map(tag => tag.id) || [];
               state.featured = false; // Not in PostWithCategories type
               state.published = post.published ?? false;
-              state.seoTitle = ""; // Not in PostWithCategories type
-              state.seoDescription = ""; // Not in PostWithCategories type
+              state.seoTitle = post.seoTitle || "";
+              state.seoDescription = post.seoDescription || "";
               state.isDraft = !post.published;
               state.hasUnsavedChanges = false;
               get().updateWordCount();
@@ -1,6 +1,8 @@
 import { create } from "zustand";
 import { devtools, persist, subscribeWithSelector } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
+import type { PostSortField } from "@/lib/validations";
+import { DEFAULT_LISTING_FILTERS, type ListingFilters } from "@/lib/post-listing";
 
 // Enhanced filter state with more comprehensive filtering options
 interface FilterState {
@@ -8,6 +10,7 @@ interface FilterState {
   searchQuery: string;
   selectedCategoryId: number | null;
   selectedTagIds: number[];
+  tagMatch: 'any' | 'all'; // Whether posts need any or all of the selected tags
   showPublishedOnly: boolean;
   
   // Advanced filters
@@ -16,15 +19,15 @@ interface FilterState {
     from: Date | null;
     to: Date | null;
   };
-  sortBy: 'createdAt' | 'updatedAt' | 'title' | 'viewCount';
+  sortBy: PostSortField; // 'relevance' ranks search matches and acts like 'createdAt' without a search
   sortOrder: 'asc' | 'desc';
   
   // UI state
   isFilterPanelOpen: boolean;
   hasActiveFilters: boolean;
   
-  // History for undo functionality
-  filterHistory: FilterState[];
+  // History for undo functionality - snapshots of the filter values, oldest first
+  filterHistory: ListingFilters[];
   historyIndex: number;
   
   // Actions
@@ -33,12 +36,14 @@ interface FilterState {
   setSelectedTagIds: (ids: number[]) => void;
   addTagId: (id: number) => void;
   removeTagId: (id: number) => void;
+  setTagMatch: (match: FilterState['tagMatch']) => void;
   setShowPublishedOnly: (show: boolean) => void;
   setAuthorId: (id: number | null) => void;
   setDateRange: (range: { from: Date | null; to: Date | null }) => void;
   setSortBy: (sortBy: FilterState['sortBy']) => void;
   setSortOrder: (order: FilterState['sortOrder']) => void;
   setFilterPanelOpen: (open: boolean) => void;
+  applyFilters: (filters: Partial<ListingFilters>) => void; // Set several filters at once, e.g. from a URL
   
   // Complex actions
   clearFilters: () => void;
@@ -54,20 +59,26 @@ interface FilterState {
 }
 
 const initialState = {
-  searchQuery: "",
-  selectedCategoryId: null,
-  selectedTagIds: [],
-  showPublishedOnly: false,
-  authorId: null,
-  dateRange: { from: null, to: null },
-  sortBy: 'createdAt' as const,
-  sortOrder: 'desc' as const,
+  ...DEFAULT_LISTING_FILTERS,
   isFilterPanelOpen: false,
   hasActiveFilters: false,
-  filterHistory: [],
+  filterHistory: [] as ListingFilters[],
   historyIndex: -1,
 };
 
+/** Just the filter values of the store, e.g. for a history snapshot. */
+export const selectListingFilters = (state: ListingFilters): ListingFilters => ({
+  searchQuery: state.searchQuery,
+  selectedCategoryId: state.selectedCategoryId,
+  selectedTagIds: [...state.selectedTagIds],
+  tagMatch: state.tagMatch,
+  showPublishedOnly: state.showPublishedOnly,
+  authorId: state.authorId,
+  dateRange: { ...state.dateRange },
+  sortBy: state.sortBy,
+  sortOrder: state.sortOrder,
+});
+
 export const useFilterStore = create<FilterState>()(
   devtools(
     persist(
@@ -107,6 +118,11 @@ export const useFilterStore = create<FilterState>()(
               state.hasActiveFilters = get().getActiveFiltersCount() > 0;
             }),
             
+          setTagMatch: (match) =>
+            set((state) => {
+              state.tagMatch = match;
+            }),
+            
           setShowPublishedOnly: (show) =>
             set((state) => {
               state.showPublishedOnly = show;
@@ -140,6 +156,15 @@ export const useFilterStore = create<FilterState>()(
               state.isFilterPanelOpen = open;
             }),
             
+          applyFilters: (filters) => {
+            set((state) => {
+              Object.assign(state, filters);
+            });
+            set((state) => {
+              state.hasActiveFilters = get().getActiveFiltersCount() > 0;
+            });
+          },
+            
           clearFilters: () =>
             set((state) => {
               get().saveToHistory();
@@ -153,19 +178,15 @@ export const useFilterStore = create<FilterState>()(
             
           saveToHistory: () =>
             set((state) => {
-              const currentState = { ...get() };
-              const stateToSave = {
-                ...currentState,
-                filterHistory: undefined,
-                historyIndex: undefined,
-              };
+              // A new entry after an undo replaces the entries that could have been redone
+              state.filterHistory.splice(state.historyIndex + 1);
               
               // Limit history size
               if (state.filterHistory.length >= 10) {
                 state.filterHistory.shift();
               }
               
-              state.filterHistory.push(stateToSave as any);
+              state.filterHistory.push(selectListingFilters(get()));
               state.historyIndex = state.filterHistory.length - 1;
             }),
             
@@ -232,11 +253,22 @@ export const useFilterStore = create<FilterState>()(
       ),
       {
         name: "filter-store",
+        // Saved filters load after mount (see StoreHydration) so server-rendered listings hydrate cleanly
+        skipHydration: true,
+        // v1: the default sort became relevance; filters saved with the old default pick it up
+        version: 1,
+        migrate: (persisted, version) => {
+          const saved = persisted as Partial<ListingFilters>;
+          return version < 1 && saved.sortBy === "createdAt" && saved.sortOrder === "desc"
+            ? { ...saved, sortBy: "relevance" }
+            : saved;
+        },
         partialize: (state) => ({
           // Only persist certain parts of the state
           searchQuery: state.searchQuery,
           selectedCategoryId: state.selectedCategoryId,
           selectedTagIds: state.selectedTagIds,
+          tagMatch: state.tagMatch,
           showPublishedOnly: state.showPublishedOnly,
           sortBy: state.sortBy,
           sortOrder: state.sortOrder,
@@ -0,0 +1,21 @@
+import "server-only";
+
+import { createHydrationHelpers } from "@trpc/react-query/rsc";
+import { cache } from "react";
+
+import { createCaller, type AppRouter } from "@/server/api/root";
+import { createPublicTRPCContext } from "@/server/api/trpc";
+import { createQueryClient } from "@/trpc/query-client";
+
+/**
+ * tRPC for React Server Components
+ *
+ * Server components call procedures directly through createCaller and can prefetch
+ * into a per-request query client that <HydrateClient> hands to client components.
+ * Calls run as an anonymous visitor so the pages stay cacheable; anything only
+ * the signed-in user may see is fetched by the client after hydration.
+ */
+const getQueryClient = cache(createQueryClient);
+const caller = createCaller(createPublicTRPCContext);
+
+export const { trpc: api, HydrateClient } = createHydrationHelpers<AppRouter>(caller, getQueryClient);
@@ -3,20 +3,72 @@ import type {
   User as SchemaUser, 
   Post as SchemaPost, 
   Category as SchemaCategory,
-  PostCategory as SchemaPostCategory 
+  PostCategory as SchemaPostCategory,
+  Tag as SchemaTag,
+  Comment as SchemaComment,
+  PostRevision as SchemaPostRevision,
+  ReadingList as SchemaReadingList,
+  Bookmark as SchemaBookmark,
+  Notification as SchemaNotification,
+  ReactionType
 } from "@/lib/schema";
 
+// Full-text search match details; highlights are wrapped in SEARCH_HIGHLIGHT_START/END markers
+export interface PostSearchMatch {
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+// How many of each reaction a post has, zero for reactions nobody left
+export type ReactionCounts = Record<ReactionType, number>;
+
 // Enhanced Post types with relationships
-export interface PostWithCategories extends Omit<SchemaPost, 'authorId'> {
+// searchVector is a database-only column and never sent to clients
+export interface PostWithCategories extends Omit<SchemaPost, 'authorId' | 'searchVector'> {
   // authorId may be nullable in some query shapes (when joined data is missing)
   authorId?: number | null;
   categories: SchemaCategory[];
-  author?: SchemaUser;
+  tags: SchemaTag[];
+  author?: PublicAuthor | null;
+  reactions?: ReactionCounts; // Present on posts from post.getAll and post.getBySlug
+  search?: PostSearchMatch; // Present when the post came from a search query
   _count?: {
     categories: number;
   };
 }
 
+/**
+ * Represents a draft export of editor content.
+ * Used for saving/loading editor state to/from local storage or server (post.saveDraft).
+ */
+export interface EditorDraft {
+  title: string;
+  content: string;
+  excerpt: string;
+  slug: string;
+  selectedCategoryIds: number[];
+  selectedTagIds: number[];
+  published: boolean;
+  featured: boolean;
+  seoTitle: string;
+  seoDescription: string;
+  scheduledAt?: Date | null; // Missing from drafts saved before these were autosaved
+  autoApproveComments?: boolean;
+  timestamp: Date;
+}
+
+// Server-side autosaved draft, as returned by post.getDraft
+export interface ServerDraft {
+  draft: EditorDraft;
+  updatedAt: Date; // When the server stored it - used for conflict detection
+}
+
+// Lightweight search result, as returned by post.search
+export type PostSearchResult = Pick<PostWithCategories, 'id' | 'title' | 'slug'> & {
+  search: PostSearchMatch;
+};
+
 export interface PostWithStats extends PostWithCategories {
   stats: {
     wordCount: number;
@@ -33,12 +85,97 @@ export interface CategoryWithCounts extends SchemaCategory {
   posts?: SchemaPost[];
 }
 
+// A category with what its landing page shows around it: the breadcrumb trail and subcategories
+export interface CategoryDetail extends SchemaCategory {
+  ancestors: Pick<SchemaCategory, 'id' | 'name' | 'slug'>[];
+  children: Pick<SchemaCategory, 'id' | 'name' | 'slug' | 'color' | 'icon'>[];
+}
+
+// Public author info - safe to send to any visitor (no email or Clerk id)
+export type PublicAuthor = Pick<SchemaUser, 'id' | 'username' | 'firstName' | 'lastName' | 'avatar'>;
+
+// An author's public profile page, as returned by user.getProfile
+export interface AuthorProfile extends PublicAuthor, Pick<SchemaUser, 'bio' | 'socialLinks' | 'role' | 'createdAt'> {
+  stats: {
+    totalPosts: number;
+    publishedPosts: number;
+    totalComments: number;
+    followerCount: number;
+    followingCount: number;
+  };
+}
+
+// An author or tag someone follows, as returned by social.following
+export type FollowedItem =
+  | { type: 'author'; author: PublicAuthor }
+  | { type: 'tag'; tag: Pick<SchemaTag, 'id' | 'name' | 'slug' | 'color'> };
+
+// A saved post on the reading list page, as returned by bookmark.list
+export interface BookmarkedPost {
+  bookmark: Pick<SchemaBookmark, 'id' | 'listId' | 'readAt' | 'createdAt'>;
+  post: Pick<SchemaPost, 'id' | 'title' | 'slug' | 'excerpt' | 'readingTime' | 'publishedAt'> & {
+    author: PublicAuthor | null;
+  };
+}
+
+// A reading list with how much is in it, as returned by bookmark.lists
+export interface ReadingListSummary extends Pick<SchemaReadingList, 'id' | 'name'> {
+  bookmarkCount: number;
+  unreadCount: number;
+}
+
+// A notification with what the bell needs to describe it, as returned by notification.list
+export interface NotificationItem extends Pick<SchemaNotification, 'id' | 'type' | 'commentId' | 'readAt' | 'createdAt'> {
+  actor: PublicAuthor | null;
+  post: Pick<SchemaPost, 'id' | 'title' | 'slug'> | null;
+}
+
+// Post revision with the public profile of whoever saved it, as returned by post.getRevisions
+export interface PostRevisionWithEditor extends SchemaPostRevision {
+  editor: PublicAuthor | null;
+}
+
+// Comment with author and nested replies, as returned by comment.list
+export interface CommentThread extends SchemaComment {
+  author: PublicAuthor | null;
+  replies: CommentThread[];
+}
+
+// Engagement totals for a set of posts over a date range, as returned by the analytics router
+export interface AnalyticsTotals {
+  views: number;
+  reads: number;
+  comments: number;
+  likes: number; // Post reactions of any type
+}
+
+// One UTC day of an analytics time series
+export interface AnalyticsDay extends AnalyticsTotals {
+  day: string; // YYYY-MM-DD
+}
+
+// A post with its engagement totals, as returned by analytics.getPostStats
+export interface AnalyticsPostStats extends AnalyticsTotals {
+  id: number;
+  title: string;
+  slug: string;
+  publishedAt: Date | null;
+}
+
+// Current period against the one before it, as returned by analytics.getComparison
+export interface AnalyticsComparison {
+  days: number;
+  current: AnalyticsTotals;
+  previous: AnalyticsTotals;
+}
+
 // API Input/Output types
 export interface CreatePostInput {
   title: string;
   content: string;
   published?: boolean;
   categoryIds?: number[];
+  tagIds?: number[];
 }
 
 export interface UpdatePostInput extends Partial<CreatePostInput> {
@@ -48,6 +185,10 @@ export interface UpdatePostInput extends Partial<CreatePostInput> {
 export interface CreateCategoryInput {
   name: string;
   description?: string;
+  parentId?: number | null;
+  color?: string | null;
+  icon?: string | null;
+  sortOrder?: number;
 }
 
 export interface UpdateCategoryInput extends Partial<CreateCategoryInput> {
@@ -58,6 +199,8 @@ export interface UpdateCategoryInput extends Partial<CreateCategoryInput> {
 export interface PostFilters {
   search?: string;
   categoryId?: number;
+  tagIds?: number[];
+  tagMatch?: 'any' | 'all';
   published?: boolean;
   authorId?: number;
   limit?: number;